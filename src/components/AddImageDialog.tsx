@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { ImagePlus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToastAction } from '@/components/ui/toast';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useUndoRedo } from '@/hooks/use-command-history';
+import { Command } from '@/services/commandHistory';
+import { EMPTY_TAXONOMY, LabelVocabulary, checkLabel } from '@/services/taxonomy';
+import { LabelInput } from './LabelInput';
+
+interface AddImageDialogProps {
+  onAdd: (url: string, label: string) => Promise<Command>;
+  vocabulary?: LabelVocabulary;
+}
+
+// Header action for adding one image by URL
+export function AddImageDialog({ onAdd, vocabulary }: AddImageDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [label, setLabel] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const { toast } = useToast();
+  const { undo } = useUndoRedo();
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const check = checkLabel(vocabulary?.taxonomy ?? EMPTY_TAXONOMY, label);
+    if (check.kind === 'rejected') {
+      toast({ title: "Label not allowed", description: check.message, variant: "destructive" });
+      return;
+    }
+    setIsAdding(true);
+    try {
+      const command = await onAdd(url.trim(), check.label);
+      toast({
+        title: "Image added",
+        description: "The image has been added to the data source.",
+        action: <ToastAction altText="Undo" onClick={() => undo(command)}>Undo</ToastAction>,
+      });
+      setUrl('');
+      setLabel('');
+      setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "Could not add image",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ImagePlus className="w-4 h-4 mr-2" />
+          Add image
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add image</DialogTitle>
+          <DialogDescription>Add an image by its URL. It's written to the data source right away.</DialogDescription>
+        </DialogHeader>
+
+        <form id="add-image-form" onSubmit={handleAdd} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="add-image-url">Image URL</Label>
+            <Input
+              id="add-image-url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/photo.jpg"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="add-image-label">Label</Label>
+            <LabelInput
+              id="add-image-label"
+              value={label}
+              onChange={setLabel}
+              candidates={vocabulary?.candidates ?? []}
+            />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button type="submit" form="add-image-form" disabled={isAdding || !url.trim()}>
+            {isAdding ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ImagePlus className="w-4 h-4 mr-2" />}
+            Add image
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
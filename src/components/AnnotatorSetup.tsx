@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAnnotator } from '@/hooks/use-annotator';
+import { ANNOTATOR_COLORS, saveAnnotator } from '@/services/annotator';
+
+// Header badge for this browser's annotator. Opens by itself on first launch,
+// when no name has been chosen yet, and can't be dismissed until one is.
+export function AnnotatorSetup() {
+  const annotator = useAnnotator();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(ANNOTATOR_COLORS[5]);
+  const { toast } = useToast();
+
+  const firstLaunch = !annotator;
+  const open = isOpen || firstLaunch;
+
+  const handleOpen = () => {
+    setName(annotator?.name ?? '');
+    setColor(annotator?.color ?? ANNOTATOR_COLORS[5]);
+    setIsOpen(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      saveAnnotator({ name, color });
+      setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "Could not save your name",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      {annotator && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleOpen}
+          className="flex items-center gap-2"
+          title="Your name on edits"
+        >
+          <span
+            className="flex h-6 w-6 items-center justify-center rounded-full text-xs font-semibold text-white"
+            style={{ backgroundColor: annotator.color }}
+          >
+            {annotator.name.charAt(0).toUpperCase()}
+          </span>
+          <span className="hidden md:inline max-w-[8rem] truncate">{annotator.name}</span>
+        </Button>
+      )}
+
+      <Dialog open={open} onOpenChange={(next) => !firstLaunch && setIsOpen(next)}>
+        <DialogContent
+          className="max-w-sm"
+          onEscapeKeyDown={(e) => firstLaunch && e.preventDefault()}
+          onPointerDownOutside={(e) => firstLaunch && e.preventDefault()}
+        >
+          <DialogHeader>
+            <DialogTitle>{firstLaunch ? 'Who is labeling?' : 'Your annotator profile'}</DialogTitle>
+            <DialogDescription>
+              Your name is recorded with every edit you make, so others sharing the sheet can see
+              who changed what. It's stored in this browser only.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form id="annotator-form" onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="annotator-name">Display name</Label>
+              <Input
+                id="annotator-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Sam"
+                maxLength={40}
+                autoFocus
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Color</Label>
+              <div className="flex flex-wrap gap-2">
+                {ANNOTATOR_COLORS.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setColor(option)}
+                    className={`flex h-7 w-7 items-center justify-center rounded-full ${
+                      option === color ? 'ring-2 ring-offset-2 ring-ring' : ''
+                    }`}
+                    style={{ backgroundColor: option }}
+                    aria-label={`Color ${option}`}
+                    aria-pressed={option === color}
+                  >
+                    {option === color && <Check className="h-4 w-4 text-white" />}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </form>
+
+          <DialogFooter>
+            <Button type="submit" form="annotator-form" disabled={!name.trim()}>
+              {firstLaunch ? 'Start labeling' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Badge } from '@/components/ui/badge';
+import { ImageDiff, summarizeDiff } from '@/lib/imageDiff';
+import { ImageData } from './ImageGallery';
+
+interface ChangesDrawerProps {
+  diff: ImageDiff | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  url: 'URL',
+  label: 'Label',
+  comments: 'Comments',
+};
+
+function ImageThumb({ image }: { image: ImageData }) {
+  return <img src={image.url} alt={image.label} className="h-12 w-12 rounded object-cover shrink-0" />;
+}
+
+// What the last refresh brought in
+export function ChangesDrawer({ diff, open, onOpenChange }: ChangesDrawerProps) {
+  if (!diff) return null;
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange}>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-3xl">
+          <DrawerHeader>
+            <DrawerTitle>Changes from the last refresh</DrawerTitle>
+            <DrawerDescription>{summarizeDiff(diff)}</DrawerDescription>
+          </DrawerHeader>
+
+          <div className="max-h-[60vh] overflow-auto px-4 pb-6 space-y-6">
+            {diff.changed.length > 0 && (
+              <section className="space-y-2">
+                <h4 className="text-sm font-semibold">Changed</h4>
+                {diff.changed.map(({ before, after, fields }) => (
+                  <div key={after.id} className="flex gap-3 rounded-md border p-3">
+                    <ImageThumb image={after} />
+                    <div className="space-y-1 text-sm min-w-0">
+                      {fields.map(field => (
+                        <div key={field} className="break-words">
+                          <Badge variant="secondary" className="mr-2">{FIELD_LABELS[field] ?? field}</Badge>
+                          <span className="line-through text-muted-foreground">{before[field] || '—'}</span>
+                          {' → '}
+                          <span>{after[field] || '—'}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {diff.added.length > 0 && (
+              <section className="space-y-2">
+                <h4 className="text-sm font-semibold">Added</h4>
+                {diff.added.map(image => (
+                  <div key={image.id} className="flex items-center gap-3 rounded-md border p-3">
+                    <ImageThumb image={image} />
+                    <span className="text-sm">{image.label}</span>
+                  </div>
+                ))}
+              </section>
+            )}
+
+            {diff.removed.length > 0 && (
+              <section className="space-y-2">
+                <h4 className="text-sm font-semibold">Removed</h4>
+                {diff.removed.map(image => (
+                  <div key={image.id} className="flex items-center gap-3 rounded-md border p-3 opacity-70">
+                    <ImageThumb image={image} />
+                    <span className="text-sm line-through">{image.label}</span>
+                  </div>
+                ))}
+              </section>
+            )}
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -0,0 +1,43 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ColumnMapping, IMAGE_FIELDS, IMAGE_FIELD_LABELS, ImageField } from '@/services/columnMapping';
+
+// Radix Select can't use an empty string as an item value
+const UNMAPPED = '__unmapped__';
+
+interface ColumnMappingFieldsProps {
+  headers: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+// One header picker per image field
+export function ColumnMappingFields({ headers, mapping, onChange }: ColumnMappingFieldsProps) {
+  const handleChange = (field: ImageField, value: string) => {
+    onChange({ ...mapping, [field]: value === UNMAPPED ? null : value });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {IMAGE_FIELDS.map((field) => (
+        <div key={field} className="space-y-1">
+          <Label className="text-xs text-muted-foreground">{IMAGE_FIELD_LABELS[field]}</Label>
+          <Select
+            value={mapping[field] ?? UNMAPPED}
+            onValueChange={(value) => handleChange(field, value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+              {headers.filter(Boolean).map((header) => (
+                <SelectItem key={header} value={header}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ConflictResolution, QueuedMutation } from '@/services/syncQueue';
+import { ImageData } from './ImageGallery';
+
+interface ConflictDialogProps {
+  conflicts: QueuedMutation[];
+  images: ImageData[];
+  onResolve: (key: string, resolution: ConflictResolution) => Promise<void>;
+}
+
+export function ConflictDialog({ conflicts, images, onResolve }: ConflictDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [mergedValue, setMergedValue] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+  const previousCount = useRef(0);
+  const { toast } = useToast();
+
+  const conflict = conflicts[0];
+  const image = conflict && images.find(img => img.id === conflict.imageId);
+
+  // Pop up whenever a new conflict arrives
+  useEffect(() => {
+    if (conflicts.length > previousCount.current) {
+      setIsOpen(true);
+    }
+    if (conflicts.length === 0) {
+      setIsOpen(false);
+    }
+    previousCount.current = conflicts.length;
+  }, [conflicts.length]);
+
+  useEffect(() => {
+    setMergedValue(conflict?.value ?? '');
+  }, [conflict?.key, conflict?.value]);
+
+  if (conflicts.length === 0) return null;
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    setIsResolving(true);
+    try {
+      await onResolve(conflict.key, resolution);
+    } catch (error) {
+      toast({
+        title: "Could not resolve conflict",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="text-destructive">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {conflicts.length} {conflicts.length === 1 ? 'conflict' : 'conflicts'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Conflicting edit</DialogTitle>
+          <DialogDescription>
+            The {conflict.field} of {image ? `"${image.label}"` : 'this image'} was changed in the sheet
+            while you were editing it.
+            {conflicts.length > 1 && ` ${conflicts.length - 1} more after this one.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {image && (
+            <img src={image.url} alt={image.label} className="h-32 w-32 rounded-md object-cover" />
+          )}
+
+          <div className="grid grid-cols-3 gap-3 text-sm">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Original</Label>
+              <p className="rounded border p-2 min-h-[40px] whitespace-pre-wrap break-words">{conflict.baseValue || '—'}</p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Mine</Label>
+              <p className="rounded border p-2 min-h-[40px] whitespace-pre-wrap break-words">{conflict.value || '—'}</p>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Theirs</Label>
+              <p className="rounded border p-2 min-h-[40px] whitespace-pre-wrap break-words">{conflict.conflict?.theirs || '—'}</p>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="merged-value" className="text-xs text-muted-foreground">Merged value</Label>
+            <Textarea
+              id="merged-value"
+              value={mergedValue}
+              onChange={(e) => setMergedValue(e.target.value)}
+              className="min-h-[60px]"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {isResolving && <Loader2 className="w-4 h-4 animate-spin self-center mr-2" />}
+          <Button variant="outline" onClick={() => handleResolve({ kind: 'theirs' })} disabled={isResolving}>
+            Keep theirs
+          </Button>
+          <Button variant="outline" onClick={() => handleResolve({ kind: 'mine' })} disabled={isResolving}>
+            Keep mine
+          </Button>
+          <Button
+            onClick={() => handleResolve({ kind: 'merged', value: mergedValue.trim() })}
+            disabled={isResolving}
+          >
+            Save merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
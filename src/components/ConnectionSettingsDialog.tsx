@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { Columns, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { fetchSheetHeaders } from '@/services/googleSheets';
+import { updateConnection } from '@/services/dataSources';
+import { Connection, MIN_POLL_INTERVAL, PollingSettings, parsePollInterval } from '@/services/connections';
+import { ColumnMapping, detectColumnMapping } from '@/services/columnMapping';
+import { ColumnMappingFields } from './ColumnMappingFields';
+
+interface ConnectionSettingsDialogProps {
+  connection: Connection;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Change a saved connection's name, refresh interval and, for sheets, its
+// column mapping in place, keeping its cached rows, queued edits and history
+export function ConnectionSettingsDialog({ connection, open, onOpenChange }: ConnectionSettingsDialogProps) {
+  const [name, setName] = useState(connection.name);
+  const [polling, setPolling] = useState<PollingSettings>(connection.polling);
+  // As typed; only turned into seconds on blur or save, so it can be edited freely
+  const [intervalText, setIntervalText] = useState(String(connection.polling.intervalSeconds));
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [loadingColumns, setLoadingColumns] = useState(false);
+  const { toast } = useToast();
+  const { config } = connection;
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(connection.name);
+    setPolling(connection.polling);
+    setIntervalText(String(connection.polling.intervalSeconds));
+    setHeaders([]);
+    setColumnMapping({});
+  }, [open, connection]);
+
+  const handleLoadColumns = async () => {
+    if (config.kind !== 'google-sheets') return;
+    setLoadingColumns(true);
+    try {
+      const sheetHeaders = await fetchSheetHeaders(config.sheetUrl);
+      if (sheetHeaders.length === 0) {
+        throw new Error('The sheet has no header row');
+      }
+      setHeaders(sheetHeaders);
+      setColumnMapping(config.columnMapping ?? detectColumnMapping(sheetHeaders));
+    } catch (error) {
+      setHeaders([]);
+      toast({
+        title: "Could not read columns",
+        description: error instanceof Error ? error.message : "Please check that the sheet can be reached.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingColumns(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      updateConnection({
+        ...connection,
+        name: name.trim() || connection.name,
+        polling: { ...polling, intervalSeconds: parsePollInterval(intervalText) },
+        ...(config.kind === 'google-sheets' && headers.length > 0 && {
+          config: { ...config, columnMapping },
+        }),
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save connection",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Connection settings</DialogTitle>
+          <DialogDescription>
+            Changes apply to "{connection.name}" right away. Cached rows, unsent edits and edit history are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="connection-settings" onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="connection-settings-name">Connection name</Label>
+            <Input
+              id="connection-settings-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          {config.kind === 'google-sheets' && (
+            <div className="space-y-3">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleLoadColumns}
+                disabled={loadingColumns}
+                className="w-full"
+              >
+                {loadingColumns ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Columns className="w-4 h-4 mr-2" />
+                )}
+                Change column mapping
+              </Button>
+              {headers.length > 0 && (
+                <ColumnMappingFields headers={headers} mapping={columnMapping} onChange={setColumnMapping} />
+              )}
+            </div>
+          )}
+
+          {config.kind === 'google-sheets' && (
+            <div className="flex items-center gap-3">
+              <Switch
+                id="connection-settings-auto-refresh"
+                checked={polling.enabled}
+                onCheckedChange={(enabled) => setPolling(prev => ({ ...prev, enabled }))}
+              />
+              <Label htmlFor="connection-settings-auto-refresh" className="flex-1">Refresh automatically every</Label>
+              <Input
+                type="number"
+                min={MIN_POLL_INTERVAL}
+                value={intervalText}
+                onChange={(e) => setIntervalText(e.target.value)}
+                onBlur={() => {
+                  const intervalSeconds = parsePollInterval(intervalText);
+                  setIntervalText(String(intervalSeconds));
+                  setPolling(prev => ({ ...prev, intervalSeconds }));
+                }}
+                disabled={!polling.enabled}
+                className="w-24"
+                aria-label="Refresh interval in seconds"
+              />
+              <span className="text-sm text-muted-foreground">seconds</span>
+            </div>
+          )}
+        </form>
+
+        <DialogFooter>
+          <Button type="submit" form="connection-settings">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Database, ChevronDown, Pencil, Trash2 } from 'lucide-react';
+import { Button, buttonVariants } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useActiveConnection } from '@/hooks/use-data-source';
+import { usePendingChanges } from '@/hooks/use-sync-queue';
+import { activateConnection, deleteConnection } from '@/services/dataSources';
+import { DEMO_CONNECTION, listConnections } from '@/services/connections';
+import { ConnectionSettingsDialog } from './ConnectionSettingsDialog';
+
+// Header menu for moving between saved connections
+export function ConnectionSwitcher() {
+  const activeConnection = useActiveConnection();
+  const pendingChanges = usePendingChanges();
+  const [editing, setEditing] = useState(false);
+  const [confirmingRemove, setConfirmingRemove] = useState(false);
+  const connections = listConnections();
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-[220px]">
+            <Database className="w-4 h-4 mr-2 shrink-0" />
+            <span className="truncate">{activeConnection.name}</span>
+            <ChevronDown className="w-4 h-4 ml-2 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Connections</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={activeConnection.id} onValueChange={activateConnection}>
+            {connections.map((connection) => (
+              <DropdownMenuRadioItem key={connection.id} value={connection.id}>
+                <span className="truncate">{connection.name}</span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          {activeConnection.id !== DEMO_CONNECTION.id && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setEditing(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit "{activeConnection.name}"
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="text-destructive focus:text-destructive"
+                onSelect={() => setConfirmingRemove(true)}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove "{activeConnection.name}"
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ConnectionSettingsDialog connection={activeConnection} open={editing} onOpenChange={setEditing} />
+
+      {/* Removing also drops everything stored for the connection, so it is confirmed first */}
+      <AlertDialog open={confirmingRemove} onOpenChange={setConfirmingRemove}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove "{activeConnection.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingChanges > 0 && (
+                <>
+                  {pendingChanges === 1 ? '1 edit has' : `${pendingChanges} edits have`} not reached the source yet
+                  and will be lost.{' '}
+                </>
+              )}
+              The offline copy, edit history and label vocabulary of this connection are deleted from this
+              browser. The data at the source itself is not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: 'destructive' })}
+              onClick={() => deleteConnection(activeConnection.id)}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
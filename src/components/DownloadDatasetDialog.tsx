@@ -0,0 +1,193 @@
+import { useRef, useState } from 'react';
+import { AlertTriangle, FolderDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/download';
+import { BundleFailure, ManifestFormat, buildDatasetBundle } from '@/services/datasetBundle';
+import { ImageData } from './ImageGallery';
+
+interface DownloadDatasetDialogProps {
+  // Images currently shown, after filtering
+  images: ImageData[];
+  selectedImages: ImageData[];
+  sourceName: string;
+}
+
+type DownloadScope = 'shown' | 'selected';
+
+// Header action for downloading image files and their labels as one ZIP
+export function DownloadDatasetDialog({ images, selectedImages, sourceName }: DownloadDatasetDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<DownloadScope>('shown');
+  const [manifest, setManifest] = useState<ManifestFormat>('csv');
+  const [byLabel, setByLabel] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<BundleFailure[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const hasSelection = selectedImages.length > 0;
+  const downloaded = scope === 'selected' && hasSelection ? selectedImages : images;
+  const downloading = progress !== null;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      // Closing cancels a download in progress
+      abortRef.current?.abort();
+    } else {
+      setScope(hasSelection ? 'selected' : 'shown');
+      setFailures([]);
+    }
+    setIsOpen(open);
+  };
+
+  const handleDownload = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setFailures([]);
+    setProgress({ done: 0, total: downloaded.length });
+
+    try {
+      const result = await buildDatasetBundle(
+        downloaded,
+        { manifest, layout: byLabel ? 'by-label' : 'flat' },
+        sourceName,
+        (done, total) => setProgress({ done, total }),
+        controller.signal
+      );
+
+      if (result.failures.length === downloaded.length) {
+        setFailures(result.failures);
+        toast({
+          title: "No images could be downloaded",
+          description: "The image hosts may not allow downloads from this page.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      downloadFile(result.file.filename, result.file.content, result.file.type);
+      if (result.failures.length > 0) {
+        // Stay open so the failed images can be reviewed
+        setFailures(result.failures);
+      } else {
+        setIsOpen(false);
+        toast({
+          title: "Dataset downloaded",
+          description: `${downloaded.length} ${downloaded.length === 1 ? 'image' : 'images'} with labels.`,
+        });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={images.length === 0}>
+          <FolderDown className="w-4 h-4 mr-2" />
+          Download dataset
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Download dataset</DialogTitle>
+          <DialogDescription>
+            Download the image files with their labels as a ZIP. Images whose host blocks
+            downloads from this page are listed and left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Images</Label>
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as DownloadScope)} disabled={downloading}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="shown" id="dataset-scope-shown" />
+                <Label htmlFor="dataset-scope-shown" className="font-normal">All shown ({images.length})</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="selected" id="dataset-scope-selected" disabled={!hasSelection} />
+                <Label htmlFor="dataset-scope-selected" className="font-normal">Selected ({selectedImages.length})</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Labels file</Label>
+            <RadioGroup value={manifest} onValueChange={(value) => setManifest(value as ManifestFormat)} disabled={downloading}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="csv" id="dataset-manifest-csv" />
+                <Label htmlFor="dataset-manifest-csv" className="font-normal">labels.csv</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="json" id="dataset-manifest-json" />
+                <Label htmlFor="dataset-manifest-json" className="font-normal">manifest.json</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="dataset-by-label"
+              checked={byLabel}
+              onCheckedChange={(checked) => setByLabel(checked === true)}
+              disabled={downloading}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="dataset-by-label" className="font-normal">One folder per label</Label>
+              <p className="text-xs text-muted-foreground">ImageNet layout, read by most classification loaders.</p>
+            </div>
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={(progress.done / progress.total) * 100} />
+              <p className="text-xs text-muted-foreground">Downloading images: {progress.done} of {progress.total}</p>
+            </div>
+          )}
+
+          {failures.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>
+                {failures.length} {failures.length === 1 ? 'image' : 'images'} couldn't be downloaded
+              </AlertTitle>
+              <AlertDescription>
+                <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs">
+                  {failures.map(({ image, reason }) => (
+                    <li key={image.id} className="break-all">
+                      <span className="font-medium">{image.label || image.id}</span>: {reason}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleDownload} disabled={downloading || downloaded.length === 0}>
+            {downloading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FolderDown className="w-4 h-4 mr-2" />}
+            Download {downloaded.length} {downloaded.length === 1 ? 'image' : 'images'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Copy, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { useUndoRedo } from '@/hooks/use-command-history';
+import { distinctLabels, findDuplicateGroups, mergeComments } from '@/lib/duplicates';
+import { Command } from '@/services/commandHistory';
+import { ImageData } from './ImageGallery';
+
+interface DuplicatesDialogProps {
+  images: ImageData[];
+  // Keep `keepId` with the chosen label and comments, delete the other copies
+  onMerge?: (keepId: string, label: string, comments: string, removeIds: string[]) => Promise<Command | null>;
+}
+
+export function DuplicatesDialog({ images, onMerge }: DuplicatesDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [groupIndex, setGroupIndex] = useState(0);
+  const [label, setLabel] = useState('');
+  const [comments, setComments] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+  const { toast } = useToast();
+  const { undo } = useUndoRedo();
+
+  const groups = useMemo(() => findDuplicateGroups(images), [images]);
+  const group = groups[Math.min(groupIndex, groups.length - 1)];
+  const labels = group ? distinctLabels(group) : [];
+  const defaultLabel = labels[0] ?? '';
+  const defaultComments = group ? mergeComments(group) : '';
+
+  useEffect(() => {
+    setLabel(defaultLabel);
+    setComments(defaultComments);
+  }, [defaultLabel, defaultComments]);
+
+  if (groups.length === 0) return null;
+
+  const handleMerge = async () => {
+    const [keep, ...others] = group.images;
+    setIsMerging(true);
+    try {
+      const command = await onMerge(keep.id, label, comments.trim(), others.map(image => image.id));
+      toast({
+        title: "Duplicates merged",
+        description: `Kept one of ${group.images.length} copies of this image.`,
+        action: command ? <ToastAction altText="Undo" onClick={() => undo(command)}>Undo</ToastAction> : undefined,
+      });
+      if (groups.length === 1) setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "Could not merge duplicates",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const current = groups.indexOf(group);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Copy className="w-4 h-4 mr-2" />
+          {groups.length} {groups.length === 1 ? 'duplicate' : 'duplicates'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Duplicate images</DialogTitle>
+          <DialogDescription>
+            {group.images.length} entries point at the same image.
+            {groups.length > 1 && ` Group ${current + 1} of ${groups.length}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-3 overflow-x-auto">
+            {group.images.map(image => (
+              <div key={image.id} className="w-32 shrink-0 space-y-1 text-xs">
+                <img src={image.url} alt={image.label} className="h-32 w-32 rounded-md object-cover" />
+                <p className="font-medium truncate" title={image.label}>{image.label}</p>
+                <p className="text-muted-foreground truncate" title={image.id}>ID {image.id}</p>
+              </div>
+            ))}
+          </div>
+
+          {labels.length > 1 && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Label to keep</Label>
+              <RadioGroup value={label} onValueChange={setLabel}>
+                {labels.map((option, i) => (
+                  <div key={option} className="flex items-center gap-2">
+                    <RadioGroupItem value={option} id={`duplicate-label-${i}`} />
+                    <Label htmlFor={`duplicate-label-${i}`} className="font-normal">{option}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="duplicate-comments" className="text-xs text-muted-foreground">Merged comments</Label>
+            <Textarea
+              id="duplicate-comments"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              className="min-h-[60px]"
+            />
+          </div>
+
+          {!onMerge && (
+            <p className="text-sm text-muted-foreground">
+              This data source can't delete images, so duplicates have to be removed at the source.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {isMerging && <Loader2 className="w-4 h-4 animate-spin self-center mr-2" />}
+          {groups.length > 1 && (
+            <Button variant="outline" onClick={() => setGroupIndex((current + 1) % groups.length)} disabled={isMerging}>
+              Next group
+            </Button>
+          )}
+          <Button onClick={handleMerge} disabled={!onMerge || isMerging}>
+            Merge into one
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/download';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { loadImageSize } from '@/lib/imageSize';
+import { assignCategoryIds } from '@/services/categories';
+import {
+  ANNOTATION_FORMAT_LABELS,
+  AnnotationFormat,
+  ImageSizes,
+  annotationLabels,
+  exportAnnotations,
+  imagesNeedingSize,
+} from '@/services/annotationExport';
+import { IMAGE_FIELDS, IMAGE_FIELD_LABELS, ImageField } from '@/services/columnMapping';
+import { EXPORT_FORMAT_LABELS, ExportFormat, exportImages } from '@/services/datasetExport';
+import { ImageData } from './ImageGallery';
+
+interface ExportDialogProps {
+  // Images currently shown, after filtering
+  images: ImageData[];
+  selectedImages: ImageData[];
+  // Connection the stable category IDs belong to
+  sourceId: string;
+  sourceName: string;
+}
+
+type ExportScope = 'shown' | 'selected';
+
+// Images measured at once for annotation formats
+const MEASURE_CONCURRENCY = 6;
+
+function isAnnotationFormat(format: ExportFormat | AnnotationFormat): format is AnnotationFormat {
+  return format in ANNOTATION_FORMAT_LABELS;
+}
+
+// Header action for downloading labels as CSV, JSON or JSON Lines, or as
+// COCO, YOLO or Pascal VOC annotations
+export function ExportDialog({ images, selectedImages, sourceId, sourceName }: ExportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat | AnnotationFormat>('csv');
+  const [fields, setFields] = useState<ImageField[]>(IMAGE_FIELDS);
+  const [scope, setScope] = useState<ExportScope>('shown');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const { toast } = useToast();
+
+  const hasSelection = selectedImages.length > 0;
+  const exported = scope === 'selected' && hasSelection ? selectedImages : images;
+  const annotations = isAnnotationFormat(format);
+  const exporting = progress !== null;
+
+  const toggleField = (field: ImageField, checked: boolean) => {
+    setFields(prev => (checked ? [...prev, field] : prev.filter(f => f !== field)));
+  };
+
+  // Sizes of the images the annotation format needs; unreachable images are missing
+  const measureImages = async (format: AnnotationFormat): Promise<ImageSizes> => {
+    const measured = imagesNeedingSize(exported, format);
+    const sizes: ImageSizes = new Map();
+    if (measured.length === 0) return sizes;
+
+    setProgress({ done: 0, total: measured.length });
+    const results = await mapWithConcurrency(
+      measured,
+      MEASURE_CONCURRENCY,
+      image => loadImageSize(image.url),
+      (done, total) => setProgress({ done, total })
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') sizes.set(measured[index].id, result.value);
+    });
+    return sizes;
+  };
+
+  const handleExport = async () => {
+    try {
+      if (isAnnotationFormat(format)) {
+        const categories = assignCategoryIds(sourceId, annotationLabels(exported));
+        const sizes = await measureImages(format);
+        const file = await exportAnnotations(exported, format, categories, sizes, `${sourceName}-labels`);
+        downloadFile(file.filename, file.content, file.type);
+
+        const skipped = file.skipped.length;
+        if (skipped > 0) {
+          toast({
+            title: "Some images couldn't be loaded",
+            description: `${skipped} ${skipped === 1 ? 'image was' : 'images were'} left out because ${skipped === 1 ? 'its' : 'their'} size couldn't be read. Check their URLs and export again.`,
+          });
+        }
+      } else {
+        const file = exportImages(exported, format, fields, `${sourceName}-labels`);
+        downloadFile(file.filename, file.content, file.type);
+      }
+      setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (exporting) return;
+        setIsOpen(open);
+        if (open) setScope(hasSelection ? 'selected' : 'shown');
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={images.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export labels</DialogTitle>
+          <DialogDescription>
+            Download labels for training pipelines. Exported CSV files can be imported again;
+            annotation formats keep each label's category ID from one export to the next.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>Labels</SelectLabel>
+                  {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((option) => (
+                    <SelectItem key={option} value={option}>{EXPORT_FORMAT_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectGroup>
+                <SelectGroup>
+                  <SelectLabel>Annotations</SelectLabel>
+                  {(Object.keys(ANNOTATION_FORMAT_LABELS) as AnnotationFormat[]).map((option) => (
+                    <SelectItem key={option} value={option}>{ANNOTATION_FORMAT_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {annotations ? (
+            <p className="text-sm text-muted-foreground">
+              Each image's regions are exported as boxes; an image without regions gets one box
+              covering the whole image with its label. Images are loaded to read their size;
+              those that can't be loaded are left out.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <Label>Fields</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {IMAGE_FIELDS.map((field) => (
+                  <div key={field} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-field-${field}`}
+                      checked={fields.includes(field)}
+                      onCheckedChange={(checked) => toggleField(field, checked === true)}
+                    />
+                    <Label htmlFor={`export-field-${field}`} className="font-normal">{IMAGE_FIELD_LABELS[field]}</Label>
+                  </div>
+                ))}
+              </div>
+              {format === 'csv' && !fields.includes('url') && (
+                <p className="text-xs text-muted-foreground">Without image URLs the file can't be imported again.</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Images</Label>
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="shown" id="export-scope-shown" />
+                <Label htmlFor="export-scope-shown" className="font-normal">All shown ({images.length})</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="selected" id="export-scope-selected" disabled={!hasSelection} />
+                <Label htmlFor="export-scope-selected" className="font-normal">Selected ({selectedImages.length})</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={(progress.done / progress.total) * 100} />
+              <p className="text-xs text-muted-foreground">Measuring images: {progress.done} of {progress.total}</p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleExport}
+            disabled={exporting || (!annotations && fields.length === 0) || exported.length === 0}
+          >
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Download {exported.length} {exported.length === 1 ? 'image' : 'images'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,26 @@
-import { useState } from 'react';
-import { Settings, ExternalLink, Copy, Check } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { Settings, ExternalLink, Copy, Check, Columns, Loader2, Table2, PlugZap, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { googleSheetsService } from '@/services/googleSheets';
+import { SheetTab, fetchSheetHeaders, listSheetTabs } from '@/services/googleSheets';
+import { importRows } from '@/services/rowImport';
+import { ConnectionTestResult, testSheetConnection } from '@/services/connectionTest';
+import { SheetLocation, parseSheetUrl, withGid } from '@/lib/sheetUrl';
+import { activateConnection, resetToDemo } from '@/services/dataSources';
+import { Connection, DEFAULT_POLLING, MIN_POLL_INTERVAL, PollingSettings, parsePollInterval, saveConnection } from '@/services/connections';
+import { ColumnMapping, detectColumnMapping } from '@/services/columnMapping';
+import { ColumnMappingFields } from './ColumnMappingFields';
+import { ImagePreviewTable } from './ImagePreviewTable';
+import { LocalFileImport } from './LocalFileImport';
+
+const PREVIEW_ROWS = 5;
 
 interface GoogleSheetsSetupProps {
   onConfigured?: () => void;
@@ -14,54 +28,163 @@ interface GoogleSheetsSetupProps {
 
 export function GoogleSheetsSetup({ onConfigured }: GoogleSheetsSetupProps) {
   const [sheetUrl, setSheetUrl] = useState('');
+  const [connectionName, setConnectionName] = useState('');
+  const [polling, setPolling] = useState<PollingSettings>(DEFAULT_POLLING);
+  // As typed; only turned into seconds on blur or save, so it can be edited freely
+  const [intervalText, setIntervalText] = useState(String(DEFAULT_POLLING.intervalSeconds));
   const [isOpen, setIsOpen] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [loadingColumns, setLoadingColumns] = useState(false);
+  const [tabs, setTabs] = useState<SheetTab[] | null>(null);
+  const [selectedGid, setSelectedGid] = useState<string | undefined>(undefined);
+  const [loadingTabs, setLoadingTabs] = useState(false);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+  const [testing, setTesting] = useState(false);
   const { toast } = useToast();
 
+  // Where the pasted link points, with the picked tab applied
+  const location = useMemo<SheetLocation | null>(() => {
+    try {
+      const parsed = parseSheetUrl(sheetUrl);
+      return selectedGid === undefined ? parsed : withGid(parsed, selectedGid);
+    } catch (error) {
+      return null;
+    }
+  }, [sheetUrl, selectedGid]);
+
+  // First rows as they would load with the current column mapping
+  const preview = useMemo(() => {
+    if (!testResult?.ok) return null;
+    const { images } = importRows(testResult.rows, headers.length > 0 ? columnMapping : undefined);
+    return { images: images.slice(0, PREVIEW_ROWS), total: images.length };
+  }, [testResult, headers.length, columnMapping]);
+
+  const tabDescription = (() => {
+    if (!location) return null;
+    const tab = tabs?.find(t => t.gid === (location.gid ?? tabs[0]?.gid));
+    if (tab) return `Tab "${tab.title}" will load`;
+    return location.gid ? `Tab with gid ${location.gid} will load` : 'The first tab will load';
+  })();
+
   const sampleSheetUrl = 'https://docs.google.com/spreadsheets/d/1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms/edit#gid=0';
   
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!sheetUrl.trim()) {
+    if (!location) {
       toast({
         title: "Invalid URL",
-        description: "Please enter a valid Google Sheets URL.",
+        description: "Please enter a valid Google Sheets link or spreadsheet ID.",
         variant: "destructive",
       });
       return;
     }
+    // Only a sheet that passed the connection test can be saved
+    if (!testResult?.ok) return;
 
+    let connection: Connection;
     try {
-      // Convert edit URL to CSV URL
-      const csvUrl = convertToCSVUrl(sheetUrl);
-      googleSheetsService.setSheetUrl(csvUrl);
-      
-      toast({
-        title: "Configuration saved",
-        description: "Google Sheets URL has been configured successfully.",
+      connection = saveConnection({
+        name: connectionName.trim() || 'Google Sheet',
+        config: {
+          kind: 'google-sheets',
+          sheetUrl: location.csvUrl,
+          ...(location.kind === 'spreadsheet' && { spreadsheetId: location.id }),
+          ...(location.gid && { gid: location.gid }),
+          ...(headers.length > 0 && { columnMapping }),
+        },
+        polling: { ...polling, intervalSeconds: parsePollInterval(intervalText) },
       });
-      
-      setIsOpen(false);
-      onConfigured?.();
     } catch (error) {
       toast({
-        title: "Invalid URL",
-        description: "Please enter a valid Google Sheets URL.",
+        title: "Could not save connection",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
+      return;
+    }
+    activateConnection(connection.id);
+
+    toast({
+      title: "Configuration saved",
+      description: `"${connection.name}" has been saved and connected.`,
+    });
+
+    setIsOpen(false);
+    setSheetUrl('');
+    setConnectionName('');
+    setHeaders([]);
+    setTabs(null);
+    setSelectedGid(undefined);
+    setTestResult(null);
+    onConfigured?.();
+  };
+
+  const handleTestConnection = async () => {
+    if (!location) return;
+    setTesting(true);
+    try {
+      const result = await testSheetConnection(location.csvUrl, headers.length > 0 ? columnMapping : undefined);
+      setTestResult(result);
+      // A working sheet also gives us its header row for the mapping
+      if (result.ok && headers.length === 0) {
+        const sheetHeaders = result.rows[0].map(cell => cell.trim());
+        setHeaders(sheetHeaders);
+        setColumnMapping(detectColumnMapping(sheetHeaders));
+      }
+    } catch (error) {
+      // Such as the connection dropping while the body is read
+      setTestResult({
+        ok: false,
+        problem: 'http',
+        message: error instanceof Error ? `The sheet could not be loaded: ${error.message}` : 'The sheet could not be loaded.',
+      });
+    } finally {
+      setTesting(false);
     }
   };
 
-  const convertToCSVUrl = (url: string): string => {
-    // Extract sheet ID from various Google Sheets URL formats
-    const match = url.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-    if (!match) {
-      throw new Error('Invalid Google Sheets URL');
+  const handleLoadTabs = async () => {
+    if (!location) return;
+    setLoadingTabs(true);
+    try {
+      const sheetTabs = await listSheetTabs(location, { interactive: true });
+      setTabs(sheetTabs);
+      if (!sheetTabs) {
+        toast({
+          title: "Tab names unavailable",
+          description: "Add #gid=<tab id> to the link to pick a tab other than the first.",
+        });
+      }
+    } finally {
+      setLoadingTabs(false);
+    }
+  };
+
+  const handleLoadColumns = async () => {
+    setLoadingColumns(true);
+    try {
+      if (!location) {
+        throw new Error('Invalid Google Sheets URL');
+      }
+      const sheetHeaders = await fetchSheetHeaders(location.csvUrl);
+      if (sheetHeaders.length === 0) {
+        throw new Error('The sheet has no header row');
+      }
+      setHeaders(sheetHeaders);
+      setColumnMapping(detectColumnMapping(sheetHeaders));
+    } catch (error) {
+      setHeaders([]);
+      toast({
+        title: "Could not read columns",
+        description: "Make sure the sheet is published to the web and the URL is correct.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingColumns(false);
     }
-    
-    const sheetId = match[1];
-    return `https://docs.google.com/spreadsheets/d/e/${sheetId}/pub?output=csv`;
   };
 
   const copyToClipboard = async (text: string) => {
@@ -82,8 +205,8 @@ export function GoogleSheetsSetup({ onConfigured }: GoogleSheetsSetupProps) {
     }
   };
 
-  const handleUseDemo = () => {
-    googleSheetsService.resetToDemo();
+  const handleUseDemo = async () => {
+    await resetToDemo();
     toast({
       title: "Demo mode enabled",
       description: "Using demo images. You can edit labels and they'll be saved locally.",
@@ -100,11 +223,11 @@ export function GoogleSheetsSetup({ onConfigured }: GoogleSheetsSetupProps) {
           Configure Sheets
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Connect to Google Sheets</DialogTitle>
           <DialogDescription>
-            Connect your image gallery to a Google Sheet to manage your images and labels.
+            Connect your image gallery to a Google Sheet, or import a file, to manage your images and labels.
           </DialogDescription>
         </DialogHeader>
 
@@ -119,28 +242,31 @@ export function GoogleSheetsSetup({ onConfigured }: GoogleSheetsSetupProps) {
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="space-y-2">
-                <p className="text-sm font-medium">1. Create a Google Sheet with this format:</p>
+                <p className="text-sm font-medium">1. Create a Google Sheet with a header row, for example:</p>
                 <div className="bg-muted p-3 rounded-md font-mono text-sm">
-                  <div className="grid grid-cols-3 gap-4 mb-2 font-semibold">
+                  <div className="grid grid-cols-4 gap-4 mb-2 font-semibold">
                     <span>ID</span>
                     <span>URL</span>
                     <span>Label</span>
+                    <span>Comments</span>
                   </div>
-                  <div className="grid grid-cols-3 gap-4 text-muted-foreground">
+                  <div className="grid grid-cols-4 gap-4 text-muted-foreground">
                     <span>1</span>
                     <span>https://example.com/image1.jpg</span>
                     <span>Beautiful Sunset</span>
+                    <span>Golden hour</span>
                   </div>
-                  <div className="grid grid-cols-3 gap-4 text-muted-foreground">
+                  <div className="grid grid-cols-4 gap-4 text-muted-foreground">
                     <span>2</span>
                     <span>https://example.com/image2.jpg</span>
                     <span>Mountain View</span>
+                    <span></span>
                   </div>
                 </div>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => copyToClipboard("ID,URL,Label\n1,https://example.com/image1.jpg,Beautiful Sunset\n2,https://example.com/image2.jpg,Mountain View")}
+                  onClick={() => copyToClipboard("ID,URL,Label,Comments\n1,https://example.com/image1.jpg,Beautiful Sunset,Golden hour\n2,https://example.com/image2.jpg,Mountain View,")}
                   className="w-full"
                 >
                   {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
@@ -171,22 +297,175 @@ export function GoogleSheetsSetup({ onConfigured }: GoogleSheetsSetupProps) {
 
           {/* URL Input */}
           <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="connection-name">Connection name</Label>
+              <Input
+                id="connection-name"
+                placeholder="e.g. Wildlife labels"
+                value={connectionName}
+                onChange={(e) => setConnectionName(e.target.value)}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="sheet-url">Google Sheets URL</Label>
               <Input
                 id="sheet-url"
-                type="url"
+                type="text"
                 placeholder={sampleSheetUrl}
                 value={sheetUrl}
-                onChange={(e) => setSheetUrl(e.target.value)}
+                onChange={(e) => {
+                  setSheetUrl(e.target.value);
+                  setHeaders([]);
+                  setTabs(null);
+                  setSelectedGid(undefined);
+                  setTestResult(null);
+                }}
               />
               <p className="text-xs text-muted-foreground">
-                Paste the URL of your published Google Sheet
+                Paste an edit link, a published link or the spreadsheet ID
               </p>
             </div>
 
+            {/* Tab selection */}
+            {location && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-sm text-muted-foreground">
+                    {tabDescription}
+                    {location.kind === 'published' && ' (published link: read-only; connect the edit link to save changes)'}
+                  </p>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleLoadTabs}
+                    disabled={loadingTabs}
+                  >
+                    {loadingTabs ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Table2 className="w-4 h-4 mr-2" />
+                    )}
+                    Choose tab
+                  </Button>
+                </div>
+                {tabs && tabs.length > 0 && (
+                  <Select
+                    value={location.gid ?? tabs[0].gid}
+                    onValueChange={(value) => {
+                      setSelectedGid(value);
+                      setHeaders([]);
+                      setTestResult(null);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tabs.map((tab) => (
+                        <SelectItem key={tab.gid} value={tab.gid}>{tab.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
+            {/* Column mapping */}
+            <div className="space-y-3">
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleTestConnection}
+                  disabled={!location || testing}
+                  className="flex-1"
+                >
+                  {testing ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <PlugZap className="w-4 h-4 mr-2" />
+                  )}
+                  Test Connection
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleLoadColumns}
+                  disabled={!location || loadingColumns}
+                  className="flex-1"
+                >
+                  {loadingColumns ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Columns className="w-4 h-4 mr-2" />
+                  )}
+                  Map Columns
+                </Button>
+              </div>
+
+              {testResult && testResult.ok === false && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Connection failed</AlertTitle>
+                  <AlertDescription>{testResult.message}</AlertDescription>
+                </Alert>
+              )}
+
+              {headers.length > 0 && (
+                <ColumnMappingFields headers={headers} mapping={columnMapping} onChange={setColumnMapping} />
+              )}
+
+              {preview && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <CheckCircle2 className="h-4 w-4 text-success" />
+                    <span>
+                      Connected. {preview.total} {preview.total === 1 ? 'image' : 'images'} will load
+                      {preview.total > PREVIEW_ROWS && `; showing the first ${PREVIEW_ROWS}`}.
+                    </span>
+                  </div>
+                  <ImagePreviewTable images={preview.images} />
+                </div>
+              )}
+            </div>
+
+            {/* Polling */}
+            <div className="flex items-center gap-3">
+              <Switch
+                id="auto-refresh"
+                checked={polling.enabled}
+                onCheckedChange={(enabled) => setPolling(prev => ({ ...prev, enabled }))}
+              />
+              <Label htmlFor="auto-refresh" className="flex-1">Refresh automatically every</Label>
+              <Input
+                type="number"
+                min={MIN_POLL_INTERVAL}
+                value={intervalText}
+                onChange={(e) => setIntervalText(e.target.value)}
+                onBlur={() => {
+                  const intervalSeconds = parsePollInterval(intervalText);
+                  setIntervalText(String(intervalSeconds));
+                  setPolling(prev => ({ ...prev, intervalSeconds }));
+                }}
+                disabled={!polling.enabled}
+                className="w-24"
+                aria-label="Refresh interval in seconds"
+              />
+              <span className="text-sm text-muted-foreground">seconds</span>
+            </div>
+
+            {!testResult?.ok && (
+              <p className="text-xs text-muted-foreground">
+                Test the connection to check the sheet loads before connecting it.
+              </p>
+            )}
+
             <div className="flex gap-3">
-              <Button type="submit" className="flex-1">
+              <Button type="submit" className="flex-1" disabled={!testResult?.ok || testing}>
                 Connect Sheet
               </Button>
               <Button
@@ -199,6 +478,13 @@ export function GoogleSheetsSetup({ onConfigured }: GoogleSheetsSetupProps) {
               </Button>
             </div>
           </form>
+
+          <LocalFileImport
+            onImported={() => {
+              setIsOpen(false);
+              onConfigured?.();
+            }}
+          />
         </div>
       </DialogContent>
     </Dialog>
@@ -1,20 +1,36 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Edit2, Save, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
-import { ImageData } from './ImageGallery';
+import { useUndoRedo } from '@/hooks/use-command-history';
+import { useEditLock } from '@/hooks/use-edit-lock';
+import { DataSourceCapabilities } from '@/services/dataSource';
+import { describeSubmitResult } from '@/services/syncQueue';
+import { EMPTY_TAXONOMY, LabelVocabulary, checkLabel } from '@/services/taxonomy';
+import { FieldEdit, ImageData } from './ImageGallery';
+import { LabelInput } from './LabelInput';
+import { LastEdited } from './LastEdited';
 
 interface ImageCardProps {
   image: ImageData;
   onImageClick: () => void;
-  onLabelUpdate: (id: string, newLabel: string) => Promise<void>;
-  onCommentsUpdate: (id: string, newComments: string) => Promise<void>;
+  onLabelUpdate: (id: string, newLabel: string) => Promise<FieldEdit>;
+  onCommentsUpdate: (id: string, newComments: string) => Promise<FieldEdit>;
+  capabilities?: DataSourceCapabilities;
+  // Suggestions for the label field and the vocabulary it must match
+  vocabulary?: LabelVocabulary;
+  // Set briefly after a refresh brought in changes to this image
+  highlighted?: boolean;
+  // Part of the gallery selection; the checkbox is hidden without a handler
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
 }
 
-export function ImageCard({ image, onImageClick, onLabelUpdate, onCommentsUpdate }: ImageCardProps) {
+export function ImageCard({ image, onImageClick, onLabelUpdate, onCommentsUpdate, capabilities, vocabulary, highlighted = false, selected = false, onSelectedChange }: ImageCardProps) {
   const [isEditingLabel, setIsEditingLabel] = useState(false);
   const [isEditingComments, setIsEditingComments] = useState(false);
   const [editedLabel, setEditedLabel] = useState(image.label);
@@ -22,25 +38,50 @@ export function ImageCard({ image, onImageClick, onLabelUpdate, onCommentsUpdate
   const [isUpdating, setIsUpdating] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
   const { toast } = useToast();
+  const { undo } = useUndoRedo();
+  const readOnly = capabilities?.readOnly ?? false;
+  const showComments = capabilities?.supportsComments ?? true;
+
+  // Keep background sync from replacing this image while it's being edited
+  useEditLock(image.id, isEditingLabel || isEditingComments);
+
+  // Follow updates to the image, except in a field that is being edited
+  useEffect(() => {
+    if (!isEditingLabel) setEditedLabel(image.label);
+  }, [image.label, isEditingLabel]);
+
+  useEffect(() => {
+    if (!isEditingComments) setEditedComments(image.comments || '');
+  }, [image.comments, isEditingComments]);
 
   const handleSaveLabel = async () => {
-    if (editedLabel.trim() === image.label) {
+    const check = checkLabel(vocabulary?.taxonomy ?? EMPTY_TAXONOMY, editedLabel);
+    if (check.kind === 'rejected') {
+      toast({ title: "Label not allowed", description: check.message, variant: "destructive" });
+      return;
+    }
+    if (check.label === image.label) {
       setIsEditingLabel(false);
       return;
     }
 
     setIsUpdating(true);
     try {
-      await onLabelUpdate(image.id, editedLabel.trim());
+      const edit = await onLabelUpdate(image.id, check.label);
       setIsEditingLabel(false);
       toast({
-        title: "Label updated",
-        description: "The image label has been saved successfully.",
+        ...(describeSubmitResult(edit.result) ?? {
+          title: "Label updated",
+          description: "The image label has been saved successfully.",
+        }),
+        action: <ToastAction altText="Undo" onClick={() => undo(edit)}>Undo</ToastAction>,
       });
     } catch (error) {
       toast({
         title: "Update failed",
-        description: "Could not update the label. Please try again.",
+        description: error instanceof Error && error.message
+          ? error.message
+          : "Could not update the label. Please try again.",
         variant: "destructive",
       });
       setEditedLabel(image.label);
@@ -57,16 +98,21 @@ export function ImageCard({ image, onImageClick, onLabelUpdate, onCommentsUpdate
 
     setIsUpdating(true);
     try {
-      await onCommentsUpdate(image.id, editedComments.trim());
+      const edit = await onCommentsUpdate(image.id, editedComments.trim());
       setIsEditingComments(false);
       toast({
-        title: "Comments updated",
-        description: "The image comments have been saved successfully.",
+        ...(describeSubmitResult(edit.result) ?? {
+          title: "Comments updated",
+          description: "The image comments have been saved successfully.",
+        }),
+        action: <ToastAction altText="Undo" onClick={() => undo(edit)}>Undo</ToastAction>,
       });
     } catch (error) {
       toast({
         title: "Update failed",
-        description: "Could not update the comments. Please try again.",
+        description: error instanceof Error && error.message
+          ? error.message
+          : "Could not update the comments. Please try again.",
         variant: "destructive",
       });
       setEditedComments(image.comments || '');
@@ -86,10 +132,15 @@ export function ImageCard({ image, onImageClick, onLabelUpdate, onCommentsUpdate
   };
 
   return (
-    <div className="group relative bg-gallery-card rounded-xl overflow-hidden transition-all duration-300 hover:shadow-[var(--gallery-shadow-hover)] hover:scale-[1.02]">
+    <div className={`group relative bg-gallery-card rounded-xl transition-all duration-300 hover:shadow-[var(--gallery-shadow-hover)] hover:scale-[1.02] ${
+      highlighted ? 'ring-2 ring-primary ring-offset-2' : ''
+    } ${
+      // Let the label suggestions spill over the cards below
+      isEditingLabel ? 'z-10' : 'overflow-hidden'
+    }`}>
       {/* Image Container */}
       <div 
-        className="aspect-square overflow-hidden cursor-pointer relative"
+        className="aspect-square overflow-hidden cursor-pointer relative rounded-t-xl"
         onClick={onImageClick}
       >
         {!imageLoaded && (
@@ -107,6 +158,21 @@ export function ImageCard({ image, onImageClick, onLabelUpdate, onCommentsUpdate
           onError={() => setImageLoaded(true)}
         />
         
+        {onSelectedChange && (
+          <div
+            className={`absolute top-3 left-3 z-10 bg-white/90 rounded p-1 transition-opacity duration-300 ${
+              selected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+            }`}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <Checkbox
+              checked={selected}
+              onCheckedChange={(checked) => onSelectedChange(checked === true)}
+              aria-label={`Select ${image.label}`}
+            />
+          </div>
+        )}
+
         {/* Overlay on hover */}
         <div className="absolute inset-0 bg-gradient-to-t from-black/50 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
         
@@ -125,16 +191,15 @@ export function ImageCard({ image, onImageClick, onLabelUpdate, onCommentsUpdate
           <Label className="text-xs text-muted-foreground mb-1 block">Label</Label>
           {isEditingLabel ? (
             <div className="space-y-2">
-              <Input
+              <LabelInput
                 value={editedLabel}
-                onChange={(e) => setEditedLabel(e.target.value)}
+                onChange={setEditedLabel}
+                onSubmit={handleSaveLabel}
+                onCancel={handleCancelLabel}
+                candidates={vocabulary?.candidates ?? []}
                 placeholder="Enter image label..."
                 className="text-sm text-black"
                 autoFocus
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') handleSaveLabel();
-                  if (e.key === 'Escape') handleCancelLabel();
-                }}
               />
               <div className="flex gap-2">
                 <Button
@@ -162,68 +227,76 @@ export function ImageCard({ image, onImageClick, onLabelUpdate, onCommentsUpdate
             </div>
           ) : (
             <div 
-              className="flex items-center justify-between group/label cursor-pointer border rounded p-2 hover:bg-muted/50"
-              onClick={() => setIsEditingLabel(true)}
+              className={`flex items-center justify-between group/label border rounded p-2 ${readOnly ? '' : 'cursor-pointer hover:bg-muted/50'}`}
+              onClick={() => !readOnly && setIsEditingLabel(true)}
             >
               <p className="text-sm font-medium text-black">
-                {image.label || 'Click to add label'}
+                {image.label || (readOnly ? 'No label' : 'Click to add label')}
               </p>
-              <Edit2 className="w-3 h-3 text-muted-foreground opacity-0 group-hover/label:opacity-100 transition-opacity" />
+              {!readOnly && (
+                <Edit2 className="w-3 h-3 text-muted-foreground opacity-0 group-hover/label:opacity-100 transition-opacity" />
+              )}
             </div>
           )}
         </div>
 
         {/* Comments */}
-        <div>
-          <Label className="text-xs text-muted-foreground mb-1 block">Comments</Label>
-          {isEditingComments ? (
-            <div className="space-y-2">
-              <Textarea
-                value={editedComments}
-                onChange={(e) => setEditedComments(e.target.value)}
-                placeholder="Enter comments..."
-                className="text-sm text-black min-h-[60px]"
-                autoFocus
-                onKeyDown={(e) => {
-                  if (e.key === 'Escape') handleCancelComments();
-                }}
-              />
-              <div className="flex gap-2">
-                <Button
-                  size="sm"
-                  onClick={handleSaveComments}
-                  disabled={isUpdating}
-                  className="flex-1"
-                >
-                  {isUpdating ? (
-                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  ) : (
-                    <Save className="w-3 h-3 mr-1" />
-                  )}
-                  Save
-                </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={handleCancelComments}
-                  disabled={isUpdating}
-                >
-                  <X className="w-3 h-3" />
-                </Button>
+        {showComments && (
+          <div>
+            <Label className="text-xs text-muted-foreground mb-1 block">Comments</Label>
+            {isEditingComments ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={editedComments}
+                  onChange={(e) => setEditedComments(e.target.value)}
+                  placeholder="Enter comments..."
+                  className="text-sm text-black min-h-[60px]"
+                  autoFocus
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') handleCancelComments();
+                  }}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={handleSaveComments}
+                    disabled={isUpdating}
+                    className="flex-1"
+                  >
+                    {isUpdating ? (
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    ) : (
+                      <Save className="w-3 h-3 mr-1" />
+                    )}
+                    Save
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleCancelComments}
+                    disabled={isUpdating}
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
               </div>
-            </div>
-          ) : (
-            <div 
-              className="flex items-start justify-between group/comments cursor-pointer border rounded p-2 hover:bg-muted/50 min-h-[60px]"
-              onClick={() => setIsEditingComments(true)}
-            >
-              <p className="text-sm text-black flex-1">
-                {image.comments || 'Click to add comments'}
-              </p>
-              <Edit2 className="w-3 h-3 text-muted-foreground opacity-0 group-hover/comments:opacity-100 transition-opacity mt-0.5" />
-            </div>
-          )}
-        </div>
+            ) : (
+              <div 
+                className={`flex items-start justify-between group/comments border rounded p-2 min-h-[60px] ${readOnly ? '' : 'cursor-pointer hover:bg-muted/50'}`}
+                onClick={() => !readOnly && setIsEditingComments(true)}
+              >
+                <p className="text-sm text-black flex-1">
+                  {image.comments || (readOnly ? 'No comments' : 'Click to add comments')}
+                </p>
+                {!readOnly && (
+                  <Edit2 className="w-3 h-3 text-muted-foreground opacity-0 group-hover/comments:opacity-100 transition-opacity mt-0.5" />
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {image.editedBy && <LastEdited name={image.editedBy} at={image.editedAt} />}
       </div>
     </div>
   );
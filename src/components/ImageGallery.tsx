@@ -1,43 +1,178 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { ImageCard } from './ImageCard';
 import { ImageModal } from './ImageModal';
 import { GoogleSheetsSetup } from './GoogleSheetsSetup';
-import { Loader2, Upload, RefreshCw } from 'lucide-react';
+import { ConflictDialog } from './ConflictDialog';
+import { ConnectionSwitcher } from './ConnectionSwitcher';
+import { ImportReportPanel } from './ImportReportPanel';
+import { SourceStatusBanner } from './SourceStatusBanner';
+import { QuarantineNotice } from './QuarantineNotice';
+import { ChangesDrawer } from './ChangesDrawer';
+import { DuplicatesDialog } from './DuplicatesDialog';
+import { ExportDialog } from './ExportDialog';
+import { DownloadDatasetDialog } from './DownloadDatasetDialog';
+import { AddImageDialog } from './AddImageDialog';
+import { AnnotatorSetup } from './AnnotatorSetup';
+import { TaxonomyDialog } from './TaxonomyDialog';
+import { Loader2, Upload, RefreshCw, CloudUpload, Search, Undo2, Redo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
+import { useHistoryState, useUndoRedo } from '@/hooks/use-command-history';
+import { useTaxonomy } from '@/hooks/use-taxonomy';
+import { ToastAction } from '@/components/ui/toast';
+import { ImageDiff, isEmptyDiff, summarizeDiff } from '@/lib/imageDiff';
+import { collectLabelCandidates } from '@/lib/labelMatch';
+import { DataSourceCapabilities, SourceStatus } from '@/services/dataSource';
+import { Command } from '@/services/commandHistory';
+import { ConflictResolution, QueuedMutation, SubmitResult } from '@/services/syncQueue';
+import { ImportReport } from '@/services/rowImport';
+import { LabelVocabulary } from '@/services/taxonomy';
+import { cacheKeyFor } from '@/services/connections';
+
+// A labelled box within an image, in pixels from the top-left corner
+export interface RegionAnnotation {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 export interface ImageData {
   id: string;
   url: string;
   label: string;
   comments?: string;
+  // Object boxes, for sources that provide them
+  regions?: RegionAnnotation[];
+  // Annotator name and ISO time of the last label or comment edit
+  editedBy?: string;
+  editedAt?: string;
 }
 
+// An applied label or comments edit: the toast reports its result and binds
+// "Undo" to this command
+export type FieldEdit = Command & { result: SubmitResult };
+
 interface ImageGalleryProps {
   images: ImageData[];
-  onUpdateLabel: (id: string, newLabel: string) => Promise<void>;
-  onUpdateComments: (id: string, newComments: string) => Promise<void>;
-  onRefresh: () => Promise<void>;
+  onUpdateLabel: (id: string, newLabel: string) => Promise<FieldEdit>;
+  onUpdateComments: (id: string, newComments: string) => Promise<FieldEdit>;
+  onRefresh: () => Promise<ImageDiff | null>;
+  // Changes brought in by background auto-sync
+  syncedDiff?: ImageDiff | null;
+  capabilities?: DataSourceCapabilities;
+  pendingChanges?: number;
+  conflicts?: QueuedMutation[];
+  onResolveConflict?: (key: string, resolution: ConflictResolution) => Promise<void>;
+  onMergeDuplicates?: (keepId: string, label: string, comments: string, removeIds: string[]) => Promise<Command | null>;
+  onAddImage?: (url: string, label: string) => Promise<Command>;
+  onDeleteImage?: (id: string) => Promise<Command | null>;
+  sourceStatus?: SourceStatus | null;
+  // Connection the gallery shows; keys per-connection export settings
+  sourceId?: string;
+  sourceName?: string;
+  importReport?: ImportReport | null;
+  onDismissImportReport?: () => void;
   loading?: boolean;
 }
 
-export function ImageGallery({ images, onUpdateLabel, onUpdateComments, onRefresh, loading = false }: ImageGalleryProps) {
-  const [selectedImage, setSelectedImage] = useState<ImageData | null>(null);
+export function ImageGallery({ images, onUpdateLabel, onUpdateComments, onRefresh, syncedDiff, capabilities, pendingChanges = 0, conflicts = [], onResolveConflict, onMergeDuplicates, onAddImage, onDeleteImage, sourceStatus, sourceId = 'demo', sourceName = 'The data source', importReport, onDismissImportReport, loading = false }: ImageGalleryProps) {
+  // Tracked by ID so the modal follows updates to the image
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [lastDiff, setLastDiff] = useState<ImageDiff | null>(null);
+  const [changesOpen, setChangesOpen] = useState(false);
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+  const highlightTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [filter, setFilter] = useState('');
+  const [selection, setSelection] = useState<Set<string>>(new Set());
   const { toast } = useToast();
+  const history = useHistoryState();
+  const { undo, redo } = useUndoRedo();
+
+  // Images matching the filter box by label, comments or ID
+  const visibleImages = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return images;
+    return images.filter(image =>
+      [image.label, image.comments ?? '', image.id].some(value => value.toLowerCase().includes(query))
+    );
+  }, [images, filter]);
+  const selectedImages = useMemo(() => images.filter(image => selection.has(image.id)), [images, selection]);
+  const taxonomy = useTaxonomy(sourceId);
+  const labelsInUse = useMemo(() => images.map(image => image.label), [images]);
+  const vocabulary = useMemo<LabelVocabulary>(
+    () => ({ taxonomy, candidates: collectLabelCandidates(taxonomy.labels, labelsInUse) }),
+    [taxonomy, labelsInUse]
+  );
+
+  const setSelected = (id: string, selected: boolean) => {
+    setSelection(prev => {
+      const next = new Set(prev);
+      if (selected) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  const selectedImage = selectedId === null ? null : images.find(image => image.id === selectedId) ?? null;
+
+  useEffect(() => () => clearTimeout(highlightTimer.current), []);
+
+  // Briefly highlight added and changed cards
+  const highlightChanges = (diff: ImageDiff) => {
+    clearTimeout(highlightTimer.current);
+    setHighlightedIds(new Set([...diff.added, ...diff.changed.map(c => c.after)].map(image => image.id)));
+    highlightTimer.current = setTimeout(() => setHighlightedIds(new Set()), 4000);
+  };
+
+  // Announce each background sync that changed something, once
+  const announcedDiff = useRef<ImageDiff | null>(null);
+  useEffect(() => {
+    if (!syncedDiff || syncedDiff === announcedDiff.current) return;
+    announcedDiff.current = syncedDiff;
+    setLastDiff(syncedDiff);
+    highlightChanges(syncedDiff);
+    toast({
+      title: "Synced",
+      description: `${summarizeDiff(syncedDiff)} in ${sourceName}.`,
+      action: (
+        <ToastAction altText="View changes" onClick={() => setChangesOpen(true)}>
+          View changes
+        </ToastAction>
+      ),
+    });
+  }, [syncedDiff, sourceName, toast]);
 
   const handleRefresh = async () => {
     setRefreshing(true);
     try {
-      await onRefresh();
+      const diff = await onRefresh();
+      if (diff && !isEmptyDiff(diff)) {
+        setLastDiff(diff);
+        highlightChanges(diff);
+        toast({
+          title: "Refreshed successfully",
+          description: `${summarizeDiff(diff)} in ${sourceName}.`,
+          action: (
+            <ToastAction altText="View changes" onClick={() => setChangesOpen(true)}>
+              View changes
+            </ToastAction>
+          ),
+        });
+        return;
+      }
       toast({
         title: "Refreshed successfully",
-        description: "Gallery data has been updated from Google Sheets.",
+        description: diff ? `No changes in ${sourceName}.` : `Gallery data has been updated from ${sourceName}.`,
       });
     } catch (error) {
       toast({
         title: "Refresh failed",
-        description: "Could not update gallery data. Please try again.",
+        description: error instanceof Error && error.message
+          ? `Could not update gallery data: ${error.message}`
+          : "Could not update gallery data. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -63,7 +198,51 @@ export function ImageGallery({ images, onUpdateLabel, onUpdateComments, onRefres
         <div className="container mx-auto px-4 py-6">
           <div className="flex items-center justify-end">
             <div className="flex items-center gap-3">
-              <GoogleSheetsSetup onConfigured={handleRefresh} />
+              {pendingChanges > 0 && (
+                <div
+                  className="flex items-center gap-2 text-sm text-muted-foreground"
+                  title="These edits are saved in this browser and will be sent when the data source is reachable."
+                >
+                  <CloudUpload className="h-4 w-4" />
+                  {pendingChanges} pending {pendingChanges === 1 ? 'change' : 'changes'}
+                </div>
+              )}
+              {onResolveConflict && (
+                <ConflictDialog conflicts={conflicts} images={images} onResolve={onResolveConflict} />
+              )}
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => undo()}
+                  disabled={!history.undoDescription}
+                  title={history.undoDescription ? `Undo: ${history.undoDescription} (Ctrl+Z)` : 'Nothing to undo'}
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => redo()}
+                  disabled={!history.redoDescription}
+                  title={history.redoDescription ? `Redo: ${history.redoDescription} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                >
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {onAddImage && capabilities?.supportsAdd !== false && !capabilities?.readOnly && (
+                <AddImageDialog onAdd={onAddImage} vocabulary={vocabulary} />
+              )}
+              <TaxonomyDialog sourceId={sourceId} labelsInUse={labelsInUse} />
+              <ExportDialog images={visibleImages} selectedImages={selectedImages} sourceId={sourceId} sourceName={sourceName} />
+              <DownloadDatasetDialog images={visibleImages} selectedImages={selectedImages} sourceName={sourceName} />
+              <DuplicatesDialog
+                images={images}
+                onMerge={capabilities?.readOnly || capabilities?.supportsDelete === false ? undefined : onMergeDuplicates}
+              />
+              <ConnectionSwitcher />
+              <AnnotatorSetup />
+              <GoogleSheetsSetup />
               <Button 
                 onClick={handleRefresh}
                 disabled={refreshing}
@@ -80,6 +259,25 @@ export function ImageGallery({ images, onUpdateLabel, onUpdateComments, onRefres
 
       {/* Gallery Grid */}
       <div className="container mx-auto px-4 py-8">
+        {sourceStatus && (sourceStatus.state !== 'live' || sourceStatus.storageError) && (
+          <div className="mb-6">
+            <SourceStatusBanner
+              status={sourceStatus}
+              sourceName={sourceName}
+              onRetry={handleRefresh}
+              retrying={refreshing}
+            />
+          </div>
+        )}
+
+        <QuarantineNotice sourceId={sourceId} storageKey={cacheKeyFor(sourceId)} status={sourceStatus ?? null} />
+
+        {importReport && importReport.issues.length > 0 && (
+          <div className="mb-6">
+            <ImportReportPanel report={importReport} onDismiss={() => onDismissImportReport?.()} />
+          </div>
+        )}
+
         {images.length === 0 ? (
           <div className="text-center py-20">
             <Upload className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
@@ -89,28 +287,76 @@ export function ImageGallery({ images, onUpdateLabel, onUpdateComments, onRefres
             </p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {images.map((image) => (
-              <ImageCard
-                key={image.id}
-                image={image}
-                onImageClick={() => setSelectedImage(image)}
-                onLabelUpdate={onUpdateLabel}
-                onCommentsUpdate={onUpdateComments}
-              />
-            ))}
-          </div>
+          <>
+            <div className="mb-6 flex flex-wrap items-center gap-3">
+              <div className="relative w-full sm:w-72">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value)}
+                  placeholder="Filter by label, comment or ID"
+                  className="pl-9"
+                  aria-label="Filter images"
+                />
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {visibleImages.length === images.length
+                  ? `${images.length} ${images.length === 1 ? 'image' : 'images'}`
+                  : `${visibleImages.length} of ${images.length} images`}
+              </span>
+              <div className="flex items-center gap-2 sm:ml-auto">
+                {selectedImages.length > 0 && (
+                  <>
+                    <span className="text-sm text-muted-foreground">{selectedImages.length} selected</span>
+                    <Button variant="ghost" size="sm" onClick={() => setSelection(new Set())}>
+                      Clear selection
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelection(prev => new Set([...prev, ...visibleImages.map(image => image.id)]))}
+                  disabled={visibleImages.every(image => selection.has(image.id))}
+                >
+                  Select all shown
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {visibleImages.map((image) => (
+                <ImageCard
+                  key={image.id}
+                  image={image}
+                  onImageClick={() => setSelectedId(image.id)}
+                  onLabelUpdate={onUpdateLabel}
+                  onCommentsUpdate={onUpdateComments}
+                  capabilities={capabilities}
+                  vocabulary={vocabulary}
+                  highlighted={highlightedIds.has(image.id)}
+                  selected={selection.has(image.id)}
+                  onSelectedChange={(selected) => setSelected(image.id, selected)}
+                />
+              ))}
+            </div>
+          </>
         )}
       </div>
 
+      <ChangesDrawer diff={lastDiff} open={changesOpen} onOpenChange={setChangesOpen} />
+
       {/* Image Modal */}
       {selectedImage && (
         <ImageModal
           image={selectedImage}
+          sourceId={sourceId}
           isOpen={!!selectedImage}
-          onClose={() => setSelectedImage(null)}
+          onClose={() => setSelectedId(null)}
           onLabelUpdate={onUpdateLabel}
           onCommentsUpdate={onUpdateComments}
+          onDelete={onDeleteImage}
+          capabilities={capabilities}
+          vocabulary={vocabulary}
         />
       )}
     </div>
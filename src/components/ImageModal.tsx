@@ -1,37 +1,79 @@
 import { useState, useEffect } from 'react';
-import { X, Edit2, Save, Download, ExternalLink } from 'lucide-react';
+import { X, Edit2, Save, Download, ExternalLink, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
-import { ImageData } from './ImageGallery';
+import { useUndoRedo } from '@/hooks/use-command-history';
+import { useEditLock } from '@/hooks/use-edit-lock';
+import { useRevisions } from '@/hooks/use-revisions';
+import { downloadFile } from '@/lib/download';
+import { Command } from '@/services/commandHistory';
+import { DataSourceCapabilities } from '@/services/dataSource';
+import { downloadedFileName, fetchImageBlob } from '@/services/datasetBundle';
+import { Revision } from '@/services/revisions';
+import { describeSubmitResult } from '@/services/syncQueue';
+import { EMPTY_TAXONOMY, LabelVocabulary, checkLabel } from '@/services/taxonomy';
+import { FieldEdit, ImageData } from './ImageGallery';
+import { LabelInput } from './LabelInput';
+import { RevisionHistory } from './RevisionHistory';
+
+type ModalTab = 'details' | 'history';
 
 interface ImageModalProps {
   image: ImageData;
+  // Data source the image belongs to, for its revision log
+  sourceId: string;
   isOpen: boolean;
   onClose: () => void;
-  onLabelUpdate: (id: string, newLabel: string) => Promise<void>;
-  onCommentsUpdate: (id: string, newComments: string) => Promise<void>;
+  onLabelUpdate: (id: string, newLabel: string) => Promise<FieldEdit>;
+  onCommentsUpdate: (id: string, newComments: string) => Promise<FieldEdit>;
+  onDelete?: (id: string) => Promise<Command | null>;
+  capabilities?: DataSourceCapabilities;
+  // Suggestions for the label field and the vocabulary it must match
+  vocabulary?: LabelVocabulary;
 }
 
-export function ImageModal({ image, isOpen, onClose, onLabelUpdate, onCommentsUpdate }: ImageModalProps) {
+export function ImageModal({ image, sourceId, isOpen, onClose, onLabelUpdate, onCommentsUpdate, onDelete, capabilities, vocabulary }: ImageModalProps) {
   const [isEditingLabel, setIsEditingLabel] = useState(false);
   const [isEditingComments, setIsEditingComments] = useState(false);
   const [editedLabel, setEditedLabel] = useState(image.label);
   const [editedComments, setEditedComments] = useState(image.comments || '');
   const [isUpdating, setIsUpdating] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const [tab, setTab] = useState<ModalTab>('details');
   const { toast } = useToast();
+  const { undo } = useUndoRedo();
+  const readOnly = capabilities?.readOnly ?? false;
+  const showComments = capabilities?.supportsComments ?? true;
+  const { revisions, loading: revisionsLoading } = useRevisions(
+    sourceId,
+    image.id,
+    isOpen && tab === 'history',
+    `${image.label}\u0000${image.comments ?? ''}`
+  );
+  const canDelete = !!onDelete && !readOnly && (capabilities?.supportsDelete ?? true);
+
+  // Keep background sync from replacing this image while it's being edited
+  useEditLock(image.id, isEditingLabel || isEditingComments);
 
   useEffect(() => {
     if (isOpen) {
-      setEditedLabel(image.label);
-      setEditedComments(image.comments || '');
       setImageLoaded(false);
     }
-  }, [image.label, image.comments, isOpen]);
+  }, [image.url, isOpen]);
+
+  // Follow updates to the image, except in a field that is being edited
+  useEffect(() => {
+    if (isOpen && !isEditingLabel) setEditedLabel(image.label);
+  }, [image.label, isOpen, isEditingLabel]);
+
+  useEffect(() => {
+    if (isOpen && !isEditingComments) setEditedComments(image.comments || '');
+  }, [image.comments, isOpen, isEditingComments]);
 
   // Handle escape key
   useEffect(() => {
@@ -48,23 +90,33 @@ export function ImageModal({ image, isOpen, onClose, onLabelUpdate, onCommentsUp
   }, [isOpen, isEditingLabel, isEditingComments, onClose]);
 
   const handleSaveLabel = async () => {
-    if (editedLabel.trim() === image.label) {
+    const check = checkLabel(vocabulary?.taxonomy ?? EMPTY_TAXONOMY, editedLabel);
+    if (check.kind === 'rejected') {
+      toast({ title: "Label not allowed", description: check.message, variant: "destructive" });
+      return;
+    }
+    if (check.label === image.label) {
       setIsEditingLabel(false);
       return;
     }
 
     setIsUpdating(true);
     try {
-      await onLabelUpdate(image.id, editedLabel.trim());
+      const edit = await onLabelUpdate(image.id, check.label);
       setIsEditingLabel(false);
       toast({
-        title: "Label updated",
-        description: "The image label has been saved successfully.",
+        ...(describeSubmitResult(edit.result) ?? {
+          title: "Label updated",
+          description: "The image label has been saved successfully.",
+        }),
+        action: <ToastAction altText="Undo" onClick={() => undo(edit)}>Undo</ToastAction>,
       });
     } catch (error) {
       toast({
         title: "Update failed",
-        description: "Could not update the label. Please try again.",
+        description: error instanceof Error && error.message
+          ? error.message
+          : "Could not update the label. Please try again.",
         variant: "destructive",
       });
       setEditedLabel(image.label);
@@ -81,16 +133,21 @@ export function ImageModal({ image, isOpen, onClose, onLabelUpdate, onCommentsUp
 
     setIsUpdating(true);
     try {
-      await onCommentsUpdate(image.id, editedComments.trim());
+      const edit = await onCommentsUpdate(image.id, editedComments.trim());
       setIsEditingComments(false);
       toast({
-        title: "Comments updated",
-        description: "The image comments have been saved successfully.",
+        ...(describeSubmitResult(edit.result) ?? {
+          title: "Comments updated",
+          description: "The image comments have been saved successfully.",
+        }),
+        action: <ToastAction altText="Undo" onClick={() => undo(edit)}>Undo</ToastAction>,
       });
     } catch (error) {
       toast({
         title: "Update failed",
-        description: "Could not update the comments. Please try again.",
+        description: error instanceof Error && error.message
+          ? error.message
+          : "Could not update the comments. Please try again.",
         variant: "destructive",
       });
       setEditedComments(image.comments || '');
@@ -99,6 +156,43 @@ export function ImageModal({ image, isOpen, onClose, onLabelUpdate, onCommentsUp
     }
   };
 
+  // Restoring is an ordinary edit, so it's logged and can be undone, and a
+  // restored label has to pass the vocabulary like a typed one
+  const handleRestore = async (revision: Revision) => {
+    let value = revision.newValue;
+    if (revision.field === 'label') {
+      const check = checkLabel(vocabulary?.taxonomy ?? EMPTY_TAXONOMY, value);
+      if (check.kind === 'rejected') {
+        toast({ title: "Label not allowed", description: check.message, variant: "destructive" });
+        return;
+      }
+      value = check.label;
+    }
+
+    const update = revision.field === 'label' ? onLabelUpdate : onCommentsUpdate;
+    setIsUpdating(true);
+    try {
+      const edit = await update(image.id, value);
+      toast({
+        ...(describeSubmitResult(edit.result) ?? {
+          title: revision.field === 'label' ? "Label restored" : "Comments restored",
+          description: "The earlier value has been saved.",
+        }),
+        action: <ToastAction altText="Undo" onClick={() => undo(edit)}>Undo</ToastAction>,
+      });
+    } catch (error) {
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error && error.message
+          ? error.message
+          : "Could not restore the earlier value. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const handleCancelLabel = () => {
     setEditedLabel(image.label);
     setIsEditingLabel(false);
@@ -109,14 +203,39 @@ export function ImageModal({ image, isOpen, onClose, onLabelUpdate, onCommentsUp
     setIsEditingComments(false);
   };
 
-  const handleDownload = () => {
-    const link = document.createElement('a');
-    link.href = image.url;
-    link.download = image.label || 'image';
-    link.target = '_blank';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // A download attribute is ignored for cross-origin URLs, so fetch the file
+  // first; hosts that block that still get the image in a new tab
+  const handleDownload = async () => {
+    try {
+      const blob = await fetchImageBlob(image.url);
+      downloadFile(downloadedFileName(image, blob), blob, blob.type);
+    } catch (error) {
+      console.error('Failed to download image:', error);
+      window.open(image.url, '_blank');
+    }
+  };
+
+  // Deleting closes the modal; the toast offers the way back
+  const handleDelete = async () => {
+    setIsUpdating(true);
+    try {
+      const command = await onDelete(image.id);
+      toast({
+        title: "Image deleted",
+        description: `"${image.label || 'Untitled'}" has been removed from the data source.`,
+        action: command ? <ToastAction altText="Undo" onClick={() => undo(command)}>Undo</ToastAction> : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error && error.message
+          ? error.message
+          : "Could not delete the image. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
   };
 
   const handleOpenInNewTab = () => {
@@ -163,6 +282,18 @@ export function ImageModal({ image, isOpen, onClose, onLabelUpdate, onCommentsUp
                 >
                   <ExternalLink className="h-5 w-5" />
                 </Button>
+                {canDelete && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleDelete}
+                    disabled={isUpdating}
+                    className="text-white hover:bg-white/20"
+                    title="Delete image"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -187,106 +318,125 @@ export function ImageModal({ image, isOpen, onClose, onLabelUpdate, onCommentsUp
 
           {/* Bottom Panel */}
           <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-6">
-            <div className="space-y-4">
-              {/* Label */}
-              <div>
-                <Label className="text-xs text-white/60 mb-1 block">Label</Label>
-                {isEditingLabel ? (
-                  <div className="flex items-center gap-2">
-                    <Input
-                      value={editedLabel}
-                      onChange={(e) => setEditedLabel(e.target.value)}
-                      placeholder="Enter image label..."
-                      className="bg-white/10 border-white/20 text-white placeholder:text-white/60 flex-1"
-                      autoFocus
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') handleSaveLabel();
-                        if (e.key === 'Escape') handleCancelLabel();
-                      }}
-                    />
-                    <Button
-                      size="sm"
-                      onClick={handleSaveLabel}
-                      disabled={isUpdating}
-                    >
-                      {isUpdating ? (
-                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                      ) : (
-                        <Save className="w-4 h-4" />
-                      )}
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={handleCancelLabel}
-                      disabled={isUpdating}
-                      className="border-white/20 text-white hover:bg-white/10"
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                ) : (
-                  <div 
-                    className="flex items-center justify-between bg-white/10 rounded p-2 cursor-pointer hover:bg-white/20 transition-colors"
-                    onClick={() => setIsEditingLabel(true)}
-                  >
-                    <span className="text-white text-sm">{image.label || 'Click to add label'}</span>
-                    <Edit2 className="w-4 h-4 text-white/60" />
+            <Tabs value={tab} onValueChange={(value) => setTab(value as ModalTab)}>
+              <TabsList className="mb-3 bg-white/10 text-white/60">
+                <TabsTrigger value="details">Details</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+              <TabsContent value="details" className="mt-0">
+                <div className="space-y-4">
+                  {/* Label */}
+                  <div>
+                    <Label className="text-xs text-white/60 mb-1 block">Label</Label>
+                    {isEditingLabel ? (
+                      <div className="flex items-center gap-2">
+                        <LabelInput
+                          value={editedLabel}
+                          onChange={setEditedLabel}
+                          onSubmit={handleSaveLabel}
+                          onCancel={handleCancelLabel}
+                          candidates={vocabulary?.candidates ?? []}
+                          placement="above"
+                          placeholder="Enter image label..."
+                          className="bg-white/10 border-white/20 text-white placeholder:text-white/60"
+                          autoFocus
+                        />
+                        <Button
+                          size="sm"
+                          onClick={handleSaveLabel}
+                          disabled={isUpdating}
+                        >
+                          {isUpdating ? (
+                            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                          ) : (
+                            <Save className="w-4 h-4" />
+                          )}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={handleCancelLabel}
+                          disabled={isUpdating}
+                          className="border-white/20 text-white hover:bg-white/10"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div 
+                        className={`flex items-center justify-between bg-white/10 rounded p-2 ${readOnly ? '' : 'cursor-pointer hover:bg-white/20 transition-colors'}`}
+                        onClick={() => !readOnly && setIsEditingLabel(true)}
+                      >
+                        <span className="text-white text-sm">{image.label || (readOnly ? 'No label' : 'Click to add label')}</span>
+                        {!readOnly && <Edit2 className="w-4 h-4 text-white/60" />}
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
 
-              {/* Comments */}
-              <div>
-                <Label className="text-xs text-white/60 mb-1 block">Comments</Label>
-                {isEditingComments ? (
-                  <div className="space-y-2">
-                    <Textarea
-                      value={editedComments}
-                      onChange={(e) => setEditedComments(e.target.value)}
-                      placeholder="Enter comments..."
-                      className="bg-white/10 border-white/20 text-white placeholder:text-white/60 min-h-[60px]"
-                      autoFocus
-                      onKeyDown={(e) => {
-                        if (e.key === 'Escape') handleCancelComments();
-                      }}
-                    />
-                    <div className="flex gap-2">
-                      <Button
-                        size="sm"
-                        onClick={handleSaveComments}
-                        disabled={isUpdating}
-                        className="flex-1"
-                      >
-                        {isUpdating ? (
-                          <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                        ) : (
-                          <Save className="w-3 h-3 mr-1" />
-                        )}
-                        Save
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={handleCancelComments}
-                        disabled={isUpdating}
-                        className="border-white/20 text-white hover:bg-white/10"
-                      >
-                        <X className="w-3 h-3" />
-                      </Button>
+                  {/* Comments */}
+                  {showComments && (
+                    <div>
+                      <Label className="text-xs text-white/60 mb-1 block">Comments</Label>
+                      {isEditingComments ? (
+                        <div className="space-y-2">
+                          <Textarea
+                            value={editedComments}
+                            onChange={(e) => setEditedComments(e.target.value)}
+                            placeholder="Enter comments..."
+                            className="bg-white/10 border-white/20 text-white placeholder:text-white/60 min-h-[60px]"
+                            autoFocus
+                            onKeyDown={(e) => {
+                              if (e.key === 'Escape') handleCancelComments();
+                            }}
+                          />
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              onClick={handleSaveComments}
+                              disabled={isUpdating}
+                              className="flex-1"
+                            >
+                              {isUpdating ? (
+                                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                              ) : (
+                                <Save className="w-3 h-3 mr-1" />
+                              )}
+                              Save
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={handleCancelComments}
+                              disabled={isUpdating}
+                              className="border-white/20 text-white hover:bg-white/10"
+                            >
+                              <X className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div 
+                          className={`bg-white/10 rounded p-2 min-h-[60px] flex items-start justify-between ${readOnly ? '' : 'cursor-pointer hover:bg-white/20 transition-colors'}`}
+                          onClick={() => !readOnly && setIsEditingComments(true)}
+                        >
+                          <span className="text-white text-sm flex-1">{image.comments || (readOnly ? 'No comments' : 'Click to add comments')}</span>
+                          {!readOnly && <Edit2 className="w-4 h-4 text-white/60 mt-0.5" />}
+                        </div>
+                      )}
                     </div>
-                  </div>
-                ) : (
-                  <div 
-                    className="bg-white/10 rounded p-2 cursor-pointer hover:bg-white/20 transition-colors min-h-[60px] flex items-start justify-between"
-                    onClick={() => setIsEditingComments(true)}
-                  >
-                    <span className="text-white text-sm flex-1">{image.comments || 'Click to add comments'}</span>
-                    <Edit2 className="w-4 h-4 text-white/60 mt-0.5" />
-                  </div>
-                )}
-              </div>
-            </div>
+                  )}
+                </div>
+              </TabsContent>
+              <TabsContent value="history" className="mt-0">
+                <RevisionHistory
+                  image={image}
+                  revisions={revisions}
+                  loading={revisionsLoading}
+                  onRestore={readOnly ? undefined : handleRestore}
+                  restoring={isUpdating}
+                />
+              </TabsContent>
+            </Tabs>
           </div>
         </div>
       </DialogContent>
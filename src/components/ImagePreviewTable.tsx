@@ -0,0 +1,36 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ImageData } from './ImageGallery';
+
+interface ImagePreviewTableProps {
+  images: ImageData[];
+}
+
+// First rows of an import, as they will load
+export function ImagePreviewTable({ images }: ImagePreviewTableProps) {
+  return (
+    <div className="rounded-md border max-h-64 overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>ID</TableHead>
+            <TableHead>Image</TableHead>
+            <TableHead>Label</TableHead>
+            <TableHead>Comments</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {images.map((image) => (
+            <TableRow key={image.id}>
+              <TableCell className="font-mono text-xs">{image.id}</TableCell>
+              <TableCell>
+                <img src={image.url} alt={image.label} className="h-10 w-10 rounded object-cover" />
+              </TableCell>
+              <TableCell>{image.label}</TableCell>
+              <TableCell className="text-muted-foreground">{image.comments}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
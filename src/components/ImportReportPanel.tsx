@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, Download, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCSV } from '@/lib/csv';
+import { downloadFile } from '@/lib/download';
+import { ImportReport, reportToRows } from '@/services/rowImport';
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+  onDismiss: () => void;
+}
+
+export function ImportReportPanel({ report, onDismiss }: ImportReportPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const errors = report.issues.filter(issue => issue.severity === 'error').length;
+  const warnings = report.issues.length - errors;
+
+  const handleDownload = () => {
+    const stamp = new Date(report.createdAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    downloadFile(`import-report-${stamp}.csv`, formatCSV(reportToRows(report)), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded-lg border bg-gallery-card">
+      <div className="flex items-center gap-3 p-3">
+        <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />
+        <p className="text-sm flex-1">
+          Imported {report.importedRows} of {report.totalRows} rows.
+          {errors > 0 && (
+            <Badge variant="destructive" className="ml-2">{report.skippedRows} skipped</Badge>
+          )}
+          {warnings > 0 && (
+            <Badge variant="secondary" className="ml-2">{warnings} {warnings === 1 ? 'warning' : 'warnings'}</Badge>
+          )}
+        </p>
+        <Button variant="ghost" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Download CSV
+        </Button>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm">
+            Details
+            <ChevronDown className={`h-4 w-4 ml-1 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+          </Button>
+        </CollapsibleTrigger>
+        <Button variant="ghost" size="icon" onClick={onDismiss} title="Dismiss">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <CollapsibleContent>
+        <div className="max-h-72 overflow-auto border-t">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Row</TableHead>
+                <TableHead className="w-24">Severity</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.issues.map((issue, index) => (
+                <TableRow key={`${issue.row}-${issue.kind}-${index}`}>
+                  <TableCell className="font-mono text-xs">{issue.row}</TableCell>
+                  <TableCell>
+                    <Badge variant={issue.severity === 'error' ? 'destructive' : 'secondary'}>
+                      {issue.severity === 'error' ? 'Skipped' : 'Warning'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{issue.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
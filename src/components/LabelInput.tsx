@@ -0,0 +1,144 @@
+import { useId, useMemo, useState } from 'react';
+import { BookMarked } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { LabelCandidate, rankLabels } from '@/lib/labelMatch';
+import { cn } from '@/lib/utils';
+
+interface LabelInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Enter without a highlighted suggestion
+  onSubmit?: () => void;
+  // Escape while no suggestions are shown
+  onCancel?: () => void;
+  candidates: LabelCandidate[];
+  // Open the suggestion list above the input, e.g. at the bottom of a dialog
+  placement?: 'below' | 'above';
+  id?: string;
+  placeholder?: string;
+  className?: string;
+  autoFocus?: boolean;
+}
+
+// Label text field with ranked suggestions from the vocabulary and the
+// labels already in use. Arrow keys move through them, Enter picks one.
+export function LabelInput({
+  value,
+  onChange,
+  onSubmit,
+  onCancel,
+  candidates,
+  placement = 'below',
+  id,
+  placeholder,
+  className,
+  autoFocus,
+}: LabelInputProps) {
+  const [open, setOpen] = useState(!!autoFocus);
+  const [highlighted, setHighlighted] = useState(-1);
+  const listId = useId();
+
+  const suggestions = useMemo(
+    () => rankLabels(value, candidates).filter(candidate => candidate.label !== value),
+    [value, candidates]
+  );
+  const showList = open && suggestions.length > 0;
+
+  const pick = (label: string) => {
+    onChange(label);
+    setOpen(false);
+    setHighlighted(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (!showList) {
+        setOpen(true);
+        return;
+      }
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      // -1 is the typed text itself, between the last and first suggestion
+      setHighlighted(index => {
+        const next = index + step;
+        if (next < -1) return suggestions.length - 1;
+        return next >= suggestions.length ? -1 : next;
+      });
+    } else if (e.key === 'Enter') {
+      if (showList && highlighted >= 0 && highlighted < suggestions.length) {
+        e.preventDefault();
+        pick(suggestions[highlighted].label);
+      } else {
+        onSubmit?.();
+      }
+    } else if (e.key === 'Escape') {
+      if (showList) {
+        e.stopPropagation();
+        setOpen(false);
+      } else {
+        onCancel?.();
+      }
+    } else if (e.key === 'Tab') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setHighlighted(-1);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder={placeholder}
+        className={className}
+        autoFocus={autoFocus}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={highlighted >= 0 ? `${listId}-${highlighted}` : undefined}
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className={cn(
+            'absolute left-0 right-0 z-50 max-h-60 overflow-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md',
+            placement === 'above' ? 'bottom-full mb-1' : 'top-full mt-1'
+          )}
+        >
+          {suggestions.map((candidate, index) => (
+            <li
+              key={candidate.label}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keep focus in the input so blur doesn't close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(candidate.label)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                'flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-sm',
+                index === highlighted && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <span className="truncate">{candidate.label}</span>
+              <span className="flex shrink-0 items-center gap-1 text-xs text-muted-foreground">
+                {candidate.count > 0 && candidate.count}
+                {candidate.inVocabulary && <BookMarked className="h-3 w-3" aria-label="In the vocabulary" />}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { formatDistanceToNow } from 'date-fns';
+import { useAnnotator } from '@/hooks/use-annotator';
+import { annotatorColor } from '@/services/annotator';
+
+interface LastEditedProps {
+  name: string;
+  // ISO timestamp; sheet values that don't parse are left out
+  at?: string;
+}
+
+// "Edited by Sam · 5 minutes ago", with the editor's color
+export function LastEdited({ name, at }: LastEditedProps) {
+  // Re-render when this browser's annotator changes color
+  useAnnotator();
+  const time = at ? new Date(at) : null;
+  const validTime = time && !Number.isNaN(time.getTime()) ? time : null;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground" title={validTime?.toLocaleString()}>
+      <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: annotatorColor(name) }} />
+      <span className="truncate">
+        Edited by {name}
+        {validTime && ` · ${formatDistanceToNow(validTime, { addSuffix: true })}`}
+      </span>
+    </div>
+  );
+}
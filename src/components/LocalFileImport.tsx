@@ -0,0 +1,181 @@
+import { useMemo, useRef, useState } from 'react';
+import { FileUp, Loader2, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { ColumnMapping, detectColumnMapping } from '@/services/columnMapping';
+import { SUPPORTED_FILE_TYPES, importFileAsConnection, readTableFile } from '@/services/fileImport';
+import { importRows } from '@/services/rowImport';
+import { activateConnection } from '@/services/dataSources';
+import { ColumnMappingFields } from './ColumnMappingFields';
+import { ImagePreviewTable } from './ImagePreviewTable';
+
+const PREVIEW_ROWS = 5;
+
+interface LocalFileImportProps {
+  onImported?: () => void;
+}
+
+interface LoadedFile {
+  name: string;
+  rows: string[][];
+  headers: string[];
+}
+
+// Drop zone / file picker that turns a CSV, TSV or XLSX file into a local
+// connection, for data that can't be published to the web
+export function LocalFileImport({ onImported }: LocalFileImportProps) {
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [connectionName, setConnectionName] = useState('');
+  const [dragging, setDragging] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const preview = useMemo(() => {
+    if (!file) return null;
+    const { images, report } = importRows(file.rows, columnMapping);
+    return { images: images.slice(0, PREVIEW_ROWS), total: images.length, skipped: report.skippedRows };
+  }, [file, columnMapping]);
+
+  const handleFile = async (selected: File) => {
+    setReading(true);
+    try {
+      const rows = await readTableFile(selected);
+      const headers = (rows[0] || []).map(cell => cell.trim());
+      if (headers.length === 0) {
+        throw new Error('The file is empty');
+      }
+      setFile({ name: selected.name, rows, headers });
+      setColumnMapping(detectColumnMapping(headers));
+      setConnectionName(selected.name.replace(/\.[^.]+$/, ''));
+    } catch (error) {
+      setFile(null);
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Please check the file and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const dropped = e.dataTransfer.files[0];
+    if (dropped) handleFile(dropped);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setImporting(true);
+    try {
+      const { connection, report } = await importFileAsConnection(
+        connectionName.trim() || file.name,
+        file.name,
+        file.rows,
+        columnMapping
+      );
+      activateConnection(connection.id);
+      toast({
+        title: "File imported",
+        description: `${report.importedRows} ${report.importedRows === 1 ? 'image' : 'images'} imported` +
+          (report.skippedRows > 0 ? `, ${report.skippedRows} rows skipped.` : '.'),
+      });
+      setFile(null);
+      onImported?.();
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Import a file</CardTitle>
+        <CardDescription>
+          CSV, TSV or Excel (.xlsx) with the same columns as a sheet. The data stays in this browser; nothing is published.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => inputRef.current?.click()}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') inputRef.current?.click();
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={cn(
+            'flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-6 text-sm text-muted-foreground cursor-pointer transition-colors',
+            dragging && 'border-primary bg-primary/5'
+          )}
+        >
+          {reading ? <Loader2 className="h-6 w-6 animate-spin" /> : <FileUp className="h-6 w-6" />}
+          <span>{file ? file.name : 'Drop a file here or click to choose one'}</span>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={SUPPORTED_FILE_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const selected = e.target.files?.[0];
+              if (selected) handleFile(selected);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {file && preview && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="file-connection-name">Connection name</Label>
+              <Input
+                id="file-connection-name"
+                value={connectionName}
+                onChange={(e) => setConnectionName(e.target.value)}
+              />
+            </div>
+
+            <ColumnMappingFields headers={file.headers} mapping={columnMapping} onChange={setColumnMapping} />
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="h-4 w-4 text-success" />
+                <span>
+                  {preview.total} {preview.total === 1 ? 'image' : 'images'} will load
+                  {preview.skipped > 0 && `, ${preview.skipped} rows skipped`}
+                  {preview.total > PREVIEW_ROWS && `; showing the first ${PREVIEW_ROWS}`}.
+                </span>
+              </div>
+              {preview.images.length > 0 && <ImagePreviewTable images={preview.images} />}
+            </div>
+
+            <Button onClick={handleImport} disabled={importing || preview.total === 0} className="w-full">
+              {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Import {preview.total} {preview.total === 1 ? 'image' : 'images'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
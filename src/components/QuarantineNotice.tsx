@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Download, FileWarning, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/download';
+import { SourceStatus } from '@/services/dataSource';
+import { QuarantinedData, discardQuarantined, listQuarantined, readQuarantined } from '@/services/storageSchema';
+
+interface QuarantineNoticeProps {
+  sourceId: string;
+  // localStorage key the source's images were saved under before IndexedDB
+  storageKey: string;
+  // Re-checked whenever the source reloads, which is when data gets quarantined
+  status: SourceStatus | null;
+}
+
+// Offers saved images that couldn't be read for download, so edits that
+// never reached the source can be recovered by hand, and then discarded
+export function QuarantineNotice({ sourceId, storageKey, status }: QuarantineNoticeProps) {
+  const [entries, setEntries] = useState<QuarantinedData[]>([]);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    listQuarantined(sourceId, storageKey)
+      .then(found => {
+        if (!cancelled) setEntries(found);
+      })
+      .catch(error => console.error('Failed to list quarantined data:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceId, storageKey, status]);
+
+  if (entries.length === 0) return null;
+
+  const handleDownload = async () => {
+    setBusy(true);
+    try {
+      const data = await Promise.all(entries.map(async entry => ({ ...entry, data: await readQuarantined(entry) })));
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      downloadFile(`unreadable-images-${stamp}.json`, JSON.stringify(data, null, 2), 'application/json');
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Could not read the saved images.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setBusy(true);
+    try {
+      for (const entry of entries) await discardQuarantined(entry);
+      setEntries(await listQuarantined(sourceId, storageKey));
+    } catch (error) {
+      toast({
+        title: "Could not discard the saved images",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Alert className="mb-6">
+      <FileWarning className="h-4 w-4" />
+      <AlertTitle>Unreadable saved images</AlertTitle>
+      <AlertDescription>
+        {entries.length === 1 ? 'A copy' : `${entries.length} copies`} of this source saved by an earlier
+        version couldn't be read and {entries.length === 1 ? 'was' : 'were'} set aside. Download{' '}
+        {entries.length === 1 ? 'it' : 'them'} to look for edits that never reached the source.
+        <div className="flex gap-2 mt-3">
+          <Button variant="outline" size="sm" onClick={handleDownload} disabled={busy}>
+            <Download className="h-4 w-4 mr-2" />
+            Download JSON
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleDiscard} disabled={busy}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Discard
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
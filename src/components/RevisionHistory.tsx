@@ -0,0 +1,94 @@
+import { formatDistanceToNow } from 'date-fns';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { MutationField } from '@/services/syncQueue';
+import { Revision } from '@/services/revisions';
+import { ImageData } from './ImageGallery';
+
+interface RevisionHistoryProps {
+  image: ImageData;
+  revisions: Revision[];
+  loading: boolean;
+  // Set the field back to a revision's value; absent when edits aren't allowed
+  onRestore?: (revision: Revision) => Promise<void>;
+  restoring: boolean;
+}
+
+const FIELD_NAMES: Record<MutationField, string> = {
+  label: 'Label',
+  comments: 'Comments',
+};
+
+function ValueText({ value, struck }: { value: string; struck?: boolean }) {
+  if (!value) return <span className="italic text-white/40">empty</span>;
+  return <span className={struck ? 'line-through text-white/50' : 'text-white'}>{value}</span>;
+}
+
+// "Sam", "Alice (in Team sheet)" or "Changed in Team sheet"
+function revisionAuthor({ origin, editor, sourceName }: Revision): string {
+  if (origin === 'local') return editor;
+  return editor ? `${editor} (in ${sourceName})` : `Changed in ${sourceName}`;
+}
+
+// Timeline of an image's label and comment changes, newest first
+export function RevisionHistory({ image, revisions, loading, onRestore, restoring }: RevisionHistoryProps) {
+  if (loading && revisions.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-white/60" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex items-center gap-2 py-4 text-sm text-white/60">
+        <History className="w-4 h-4" />
+        No changes recorded for this image yet.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="max-h-56 overflow-y-auto space-y-2 pr-1">
+      {revisions.map((revision) => {
+        const isCurrent = (image[revision.field] ?? '') === revision.newValue;
+        return (
+          <li key={revision.seq} className="rounded bg-white/10 p-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0 text-xs text-white/60">
+                <Badge variant="secondary" className="shrink-0">{FIELD_NAMES[revision.field]}</Badge>
+                <span className="truncate">
+                  {revisionAuthor(revision)}
+                  {' · '}
+                  <time dateTime={new Date(revision.timestamp).toISOString()} title={new Date(revision.timestamp).toLocaleString()}>
+                    {formatDistanceToNow(revision.timestamp, { addSuffix: true })}
+                  </time>
+                </span>
+              </div>
+              {onRestore && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onRestore(revision)}
+                  disabled={restoring || isCurrent}
+                  className="h-7 shrink-0 text-white hover:bg-white/20"
+                  title={isCurrent ? 'This is the current value' : 'Restore this value'}
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  Restore
+                </Button>
+              )}
+            </div>
+            <div className="mt-1 break-words">
+              <ValueText value={revision.oldValue} struck />
+              {' → '}
+              <ValueText value={revision.newValue} />
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
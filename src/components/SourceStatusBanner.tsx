@@ -0,0 +1,88 @@
+import { formatDistanceToNow } from 'date-fns';
+import { AlertCircle, CloudOff, FileSpreadsheet, FlaskConical, HardDrive, RefreshCw } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { SourceStatus } from '@/services/dataSource';
+
+interface SourceStatusBannerProps {
+  status: SourceStatus;
+  sourceName: string;
+  onRetry: () => void;
+  retrying?: boolean;
+}
+
+// Persistent notice whenever the gallery isn't showing live data, or live
+// data couldn't be kept for offline use
+export function SourceStatusBanner({ status, sourceName, onRetry, retrying = false }: SourceStatusBannerProps) {
+  if (status.state === 'live') {
+    if (!status.storageError) return null;
+    return (
+      <Alert variant="destructive">
+        <HardDrive className="h-4 w-4" />
+        <AlertTitle>No offline copy</AlertTitle>
+        <AlertDescription>
+          {sourceName} loaded, but couldn't be saved in this browser: {status.storageError} The
+          gallery won't be available while the sheet is unreachable.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status.state === 'demo') {
+    return (
+      <Alert>
+        <FlaskConical className="h-4 w-4" />
+        <AlertTitle>Demo data</AlertTitle>
+        <AlertDescription>
+          You're viewing sample images. Edits are saved in this browser only.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (status.state === 'local') {
+    return (
+      <Alert>
+        <FileSpreadsheet className="h-4 w-4" />
+        <AlertTitle>Imported file</AlertTitle>
+        <AlertDescription>
+          {sourceName} lives in this browser only. Edits aren't written back to the original file.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const retryButton = (
+    <Button variant="outline" size="sm" onClick={onRetry} disabled={retrying} className="mt-3">
+      <RefreshCw className={`h-4 w-4 mr-2 ${retrying ? 'animate-spin' : ''}`} />
+      Retry
+    </Button>
+  );
+
+  if (status.state === 'cached') {
+    const age = status.fetchedAt
+      ? `from ${formatDistanceToNow(status.fetchedAt, { addSuffix: true })}`
+      : 'of unknown age';
+    return (
+      <Alert variant="destructive">
+        <CloudOff className="h-4 w-4" />
+        <AlertTitle>Showing a cached copy {age}</AlertTitle>
+        <AlertDescription>
+          {sourceName} could not be reached: {status.error}
+          <div>{retryButton}</div>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>Could not load {sourceName}</AlertTitle>
+      <AlertDescription>
+        {status.error}
+        <div>{retryButton}</div>
+      </AlertDescription>
+    </Alert>
+  );
+}
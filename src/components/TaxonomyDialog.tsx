@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { BookMarked, ListPlus, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useActiveConnection } from '@/hooks/use-data-source';
+import { useTaxonomy } from '@/hooks/use-taxonomy';
+import { parseSheetUrl } from '@/lib/sheetUrl';
+import { SheetTab, listSheetTabs } from '@/services/googleSheets';
+import { TaxonomySource, cleanLabels, fetchTaxonomyFromSheet, saveTaxonomy } from '@/services/taxonomy';
+
+interface TaxonomyDialogProps {
+  sourceId: string;
+  // Labels currently on images, offered for adding to the vocabulary
+  labelsInUse: string[];
+}
+
+const splitLines = (text: string) => cleanLabels(text.split('\n'));
+
+// Header action for editing the label vocabulary, typed in or loaded from
+// another tab of the connected sheet
+export function TaxonomyDialog({ sourceId, labelsInUse }: TaxonomyDialogProps) {
+  const taxonomy = useTaxonomy(sourceId);
+  const connection = useActiveConnection();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [strict, setStrict] = useState(false);
+  const [source, setSource] = useState<TaxonomySource>({ kind: 'manual' });
+  const [tabs, setTabs] = useState<SheetTab[] | null>(null);
+  const [selectedGid, setSelectedGid] = useState<string | undefined>(undefined);
+  const [loadingTabs, setLoadingTabs] = useState(false);
+  const [loadingTerms, setLoadingTerms] = useState(false);
+  const { toast } = useToast();
+
+  const sheetUrl = connection.config.kind === 'google-sheets' ? connection.config.sheetUrl : null;
+  const draftLabels = splitLines(draft);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setDraft(taxonomy.labels.join('\n'));
+      setStrict(taxonomy.strict);
+      setSource(taxonomy.source);
+      setSelectedGid(taxonomy.source.kind === 'sheet-tab' ? taxonomy.source.gid : undefined);
+    }
+    setIsOpen(open);
+  };
+
+  const handleAddLabelsInUse = () => {
+    setDraft(cleanLabels([...draftLabels, ...[...labelsInUse].sort((a, b) => a.localeCompare(b))]).join('\n'));
+    setSource({ kind: 'manual' });
+  };
+
+  const handleLoadTabs = async () => {
+    if (!sheetUrl) return;
+    setLoadingTabs(true);
+    try {
+      const sheetTabs = await listSheetTabs(parseSheetUrl(sheetUrl), { interactive: true });
+      setTabs(sheetTabs);
+      if (!sheetTabs) {
+        toast({
+          title: "Tab names unavailable",
+          description: "Sign in with Google or publish the whole document to pick a tab.",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Could not list tabs",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingTabs(false);
+    }
+  };
+
+  const loadFromTab = async (gid: string, title: string) => {
+    if (!sheetUrl) return;
+    setLoadingTerms(true);
+    try {
+      const labels = await fetchTaxonomyFromSheet(sheetUrl, gid);
+      setDraft(labels.join('\n'));
+      setSource({ kind: 'sheet-tab', gid, title, loadedAt: Date.now() });
+      toast({
+        title: "Labels loaded",
+        description: `${labels.length} label${labels.length === 1 ? '' : 's'} read from "${title}".`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not load labels",
+        description: error instanceof Error ? error.message : "Make sure the tab is published to the web.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingTerms(false);
+    }
+  };
+
+  const handleSave = () => {
+    try {
+      // Strict mode without any terms would reject every label
+      saveTaxonomy(sourceId, { labels: draftLabels, strict: strict && draftLabels.length > 0, source });
+      setIsOpen(false);
+      toast({
+        title: "Label vocabulary saved",
+        description: `${draftLabels.length} label${draftLabels.length === 1 ? '' : 's'}${strict && draftLabels.length > 0 ? ', strict mode on' : ''}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could not save the vocabulary",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectedTab = tabs?.find(tab => tab.gid === selectedGid);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <BookMarked className="w-4 h-4 mr-2" />
+          Labels
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Label vocabulary</DialogTitle>
+          <DialogDescription>
+            Label fields suggest these terms first, including for variants like "Dog " or "dogs".
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {sheetUrl && (
+            <div className="space-y-2 rounded-md border p-3">
+              <Label>Load from a sheet tab</Label>
+              <p className="text-xs text-muted-foreground">
+                Labels are read from the first column of the tab; a header such as "Label" is skipped.
+              </p>
+              <div className="flex items-center gap-2">
+                {tabs && tabs.length > 0 ? (
+                  <Select value={selectedGid} onValueChange={setSelectedGid}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Choose a tab" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tabs.map((tab) => (
+                        <SelectItem key={tab.gid} value={tab.gid}>{tab.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={handleLoadTabs} disabled={loadingTabs}>
+                    {loadingTabs && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Show tabs
+                  </Button>
+                )}
+                {selectedTab && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => loadFromTab(selectedTab.gid, selectedTab.title)}
+                    disabled={loadingTerms}
+                  >
+                    {loadingTerms && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Load
+                  </Button>
+                )}
+              </div>
+              {source.kind === 'sheet-tab' && (
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    From tab "{source.title}", loaded {formatDistanceToNow(source.loadedAt, { addSuffix: true })}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => loadFromTab(source.gid, source.title)}
+                    disabled={loadingTerms}
+                  >
+                    <RefreshCw className={`w-3 h-3 mr-1 ${loadingTerms ? 'animate-spin' : ''}`} />
+                    Reload
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="taxonomy-labels">Labels, one per line</Label>
+              <Button variant="ghost" size="sm" onClick={handleAddLabelsInUse} disabled={!labelsInUse.some(label => label.trim())}>
+                <ListPlus className="w-4 h-4 mr-1" />
+                Add labels in use
+              </Button>
+            </div>
+            <Textarea
+              id="taxonomy-labels"
+              value={draft}
+              onChange={(e) => {
+                setDraft(e.target.value);
+                setSource({ kind: 'manual' });
+              }}
+              placeholder={'cat\ndog\nbird'}
+              rows={8}
+            />
+            <p className="text-xs text-muted-foreground">
+              {draftLabels.length} label{draftLabels.length === 1 ? '' : 's'}
+            </p>
+          </div>
+
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="taxonomy-strict">Strict mode</Label>
+              <p className="text-xs text-muted-foreground">
+                Save variants as the matching term and reject labels that aren't in the vocabulary.
+              </p>
+            </div>
+            <Switch
+              id="taxonomy-strict"
+              checked={strict && draftLabels.length > 0}
+              onCheckedChange={setStrict}
+              disabled={draftLabels.length === 0}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
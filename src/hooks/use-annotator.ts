@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { Annotator, getAnnotator, subscribeToAnnotator } from '@/services/annotator';
+
+// This browser's annotator, or null before one was chosen
+export function useAnnotator(): Annotator | null {
+  return useSyncExternalStore(subscribeToAnnotator, getAnnotator);
+}
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { PollingSettings } from '@/services/connections';
+
+// Longest wait between polls after repeated failures
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+// Calls `poll` every `intervalSeconds` while polling is enabled. Polling
+// pauses while the tab is hidden and catches up as soon as it is visible
+// again. A poll that throws doubles the wait, up to MAX_BACKOFF_MS; the next
+// success resets it.
+export function useAutoSync(settings: PollingSettings, poll: () => Promise<void>) {
+  // Always call the latest callback without restarting the schedule
+  const pollRef = useRef(poll);
+  pollRef.current = poll;
+
+  const { enabled, intervalSeconds } = settings;
+
+  useEffect(() => {
+    if (!enabled || intervalSeconds <= 0) return;
+
+    const intervalMs = intervalSeconds * 1000;
+    let failures = 0;
+    let lastRunAt = Date.now();
+    let running = false;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const currentDelay = () => Math.min(intervalMs * 2 ** failures, MAX_BACKOFF_MS);
+
+    const schedule = (delay: number) => {
+      clearTimeout(timer);
+      if (stopped || document.hidden) return;
+      timer = setTimeout(run, Math.max(0, delay));
+    };
+
+    const run = async () => {
+      if (stopped || running || document.hidden) return;
+      running = true;
+      try {
+        await pollRef.current();
+        failures = 0;
+      } catch (error) {
+        failures++;
+        console.warn(`Auto-sync failed, retrying in ${Math.round(currentDelay() / 1000)}s:`, error);
+      } finally {
+        running = false;
+        lastRunAt = Date.now();
+      }
+      schedule(currentDelay());
+    };
+
+    // Timers stop while hidden; on return, poll right away if one is overdue
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        clearTimeout(timer);
+      } else {
+        schedule(lastRunAt + currentDelay() - Date.now());
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    schedule(intervalMs);
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [enabled, intervalSeconds]);
+}
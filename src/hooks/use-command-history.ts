@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { Command, HistoryState, commandHistory } from '@/services/commandHistory';
+import { useToast } from '@/hooks/use-toast';
+
+const subscribe = (listener: () => void) => commandHistory.subscribe(listener);
+const getState = () => commandHistory.getState();
+
+// What undo and redo would act on next
+export function useHistoryState(): HistoryState {
+  return useSyncExternalStore(subscribe, getState);
+}
+
+// Undo and redo with a toast for the outcome. Passing the command an "Undo"
+// toast was shown for only undoes it while nothing newer was done since.
+export function useUndoRedo() {
+  const { toast } = useToast();
+
+  const undo = useCallback(async (expected?: Command) => {
+    if (expected && commandHistory.latest() !== expected) {
+      toast({
+        title: "Can't undo this change",
+        description: "Newer changes were made since. Use Ctrl+Z to undo them in order.",
+      });
+      return;
+    }
+    try {
+      const command = await commandHistory.undo();
+      if (command) {
+        toast({ title: "Undone", description: command.description });
+      }
+    } catch (error) {
+      toast({
+        title: "Undo failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const redo = useCallback(async () => {
+    try {
+      const command = await commandHistory.redo();
+      if (command) {
+        toast({ title: "Redone", description: command.description });
+      }
+    } catch (error) {
+      toast({
+        title: "Redo failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  return { undo, redo };
+}
+
+// Text fields keep their own undo; shortcuts only apply outside them
+function isTextInput(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT'
+  );
+}
+
+// Ctrl+Z / Cmd+Z undoes, Ctrl+Shift+Z / Cmd+Shift+Z and Ctrl+Y redo
+export function useUndoShortcuts() {
+  const { undo, redo } = useUndoRedo();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
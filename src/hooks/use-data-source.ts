@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+import { getActiveConnection, getActiveDataSource, subscribeToDataSource } from '@/services/dataSources';
+import { DataSource } from '@/services/dataSource';
+import { Connection } from '@/services/connections';
+
+// The adapter the gallery is currently pointed at; re-renders on switch
+export function useDataSource(): DataSource {
+  return useSyncExternalStore(subscribeToDataSource, getActiveDataSource);
+}
+
+// The saved connection behind the active adapter
+export function useActiveConnection(): Connection {
+  return useSyncExternalStore(subscribeToDataSource, getActiveConnection);
+}
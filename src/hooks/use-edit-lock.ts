@@ -0,0 +1,11 @@
+import { useEffect } from 'react';
+import { beginEdit, endEdit } from '@/lib/activeEdits';
+
+// Marks an image as being edited while `active` is true
+export function useEditLock(imageId: string, active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+    beginEdit(imageId);
+    return () => endEdit(imageId);
+  }, [imageId, active]);
+}
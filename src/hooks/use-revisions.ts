@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { Revision, listRevisions, subscribeToRevisions } from '@/services/revisions';
+
+// Revision log of one image, newest first; reloads when revisions are added
+// in this tab or `version` changes (e.g. the image was edited elsewhere)
+export function useRevisions(sourceId: string, imageId: string, enabled: boolean, version?: string) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    return subscribeToRevisions((changedSourceId, imageIds) => {
+      if (changedSourceId === sourceId && imageIds.includes(imageId)) {
+        setReloads(count => count + 1);
+      }
+    });
+  }, [sourceId, imageId]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    setLoading(true);
+
+    listRevisions(sourceId, imageId)
+      .then(result => {
+        if (!cancelled) setRevisions(result);
+      })
+      .catch(error => {
+        console.error('Failed to load revisions:', error);
+        if (!cancelled) setRevisions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceId, imageId, enabled, version, reloads]);
+
+  return { revisions, loading };
+}
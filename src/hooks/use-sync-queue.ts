@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { QueuedMutation, syncQueue } from '@/services/syncQueue';
+
+// Number of edits still waiting to reach the active data source
+export function usePendingChanges(): number {
+  const [pending, setPending] = useState(syncQueue.getPendingCount());
+
+  useEffect(() => {
+    syncQueue.start();
+    return syncQueue.subscribe(setPending);
+  }, []);
+
+  return pending;
+}
+
+// Queued edits that collided with a remote change and await resolution
+export function useConflicts(): QueuedMutation[] {
+  const [conflicts, setConflicts] = useState(syncQueue.getConflicts());
+
+  useEffect(() => {
+    syncQueue.start();
+    return syncQueue.subscribeToConflicts(setConflicts);
+  }, []);
+
+  return conflicts;
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { isLeader, subscribeToLeadership } from '@/services/tabSync';
+
+// Whether this tab was elected to run background sync
+export function useIsLeader(): boolean {
+  return useSyncExternalStore(subscribeToLeadership, isLeader);
+}
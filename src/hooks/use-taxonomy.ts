@@ -0,0 +1,8 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Taxonomy, getTaxonomy, subscribeToTaxonomy } from '@/services/taxonomy';
+
+// Label vocabulary of a connection; re-renders when it is edited
+export function useTaxonomy(sourceId: string): Taxonomy {
+  const getSnapshot = useCallback(() => getTaxonomy(sourceId), [sourceId]);
+  return useSyncExternalStore(subscribeToTaxonomy, getSnapshot);
+}
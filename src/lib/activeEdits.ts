@@ -0,0 +1,22 @@
+// Images that have an editor open somewhere in the UI. Background refreshes
+// leave these alone so a poll never replaces text the user is typing; the
+// next refresh after the edit closes picks up the remote state.
+
+const editCounts = new Map<string, number>();
+
+export function beginEdit(imageId: string) {
+  editCounts.set(imageId, (editCounts.get(imageId) ?? 0) + 1);
+}
+
+export function endEdit(imageId: string) {
+  const count = (editCounts.get(imageId) ?? 0) - 1;
+  if (count > 0) {
+    editCounts.set(imageId, count);
+  } else {
+    editCounts.delete(imageId);
+  }
+}
+
+export function isBeingEdited(imageId: string): boolean {
+  return editCounts.has(imageId);
+}
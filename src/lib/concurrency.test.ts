@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency } from './concurrency';
+
+const tick = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('keeps results in input order however the tasks finish', async () => {
+    const results = await mapWithConcurrency([30, 5, 20, 0], 2, async (ms, index) => {
+      await tick(ms);
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: '0:30' },
+      { status: 'fulfilled', value: '1:5' },
+      { status: 'fulfilled', value: '2:20' },
+      { status: 'fulfilled', value: '3:0' },
+    ]);
+  });
+
+  it('runs no more than `limit` tasks at once', async () => {
+    let running = 0;
+    let peak = 0;
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async (i) => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick(i % 3);
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('settles every item on its own and reports progress for each', async () => {
+    const progress: string[] = [];
+    const results = await mapWithConcurrency(
+      ['a', 'b', 'c'],
+      2,
+      async (item) => {
+        if (item === 'b') throw new Error('b failed');
+        return item.toUpperCase();
+      },
+      (done, total) => progress.push(`${done}/${total}`)
+    );
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 'A' });
+    expect(results[1]).toEqual({ status: 'rejected', reason: new Error('b failed') });
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 'C' });
+    expect(progress).toEqual(['1/3', '2/3', '3/3']);
+  });
+
+  it('returns nothing for no items', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { CSVParseError, CSVTokenizer, isBlankRow, parseCSV, parseCSVStream } from './csv';
+
+// A response body delivering `bytes` in pieces of `size` bytes
+function streamOf(bytes: Uint8Array, size: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+describe('parseCSV', () => {
+  it('splits records on LF, CRLF and CR', () => {
+    expect(parseCSV('a,b\r\nc,d\ne,f\rg,h')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f'], ['g', 'h']]);
+  });
+
+  it('drops a leading byte order mark', () => {
+    expect(parseCSV('\uFEFFid,url\r\n1,x')).toEqual([['id', 'url'], ['1', 'x']]);
+  });
+
+  it('keeps delimiters and newlines inside quoted fields', () => {
+    expect(parseCSV('"a, b","line 1\r\nline 2"\n')).toEqual([['a, b', 'line 1\r\nline 2']]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCSV('"say ""hi""",""""')).toEqual([['say "hi"', '"']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCSV(',a,,\n')).toEqual([['', 'a', '', '']]);
+  });
+
+  it('returns trailing blank lines as blank rows', () => {
+    const rows = parseCSV('a,b\n\n\r\n');
+    expect(rows).toEqual([['a', 'b'], [''], ['']]);
+    expect(rows.map(isBlankRow)).toEqual([false, true, true]);
+  });
+
+  it('parses other delimiters', () => {
+    expect(parseCSV('a\t"b\tc"\n', '\t')).toEqual([['a', 'b\tc']]);
+  });
+
+  it('reports the row and column of a stray quote', () => {
+    const error = (() => {
+      try {
+        parseCSV('id,url\n1,ab"c\n');
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(CSVParseError);
+    expect(error).toMatchObject({ row: 2, column: 2 });
+    expect((error as Error).message).toBe('Unexpected quote in unquoted field (row 2, column 2)');
+  });
+
+  it('reports text after a closing quote and unterminated quotes', () => {
+    expect(() => parseCSV('a,"b"c')).toThrow('Unexpected character after closing quote (row 1, column 2)');
+    expect(() => parseCSV('a\n"b')).toThrow('Unterminated quoted field (row 2, column 1)');
+  });
+});
+
+describe('CSVTokenizer', () => {
+  it('handles a CRLF split across chunks', () => {
+    const tokenizer = new CSVTokenizer();
+    expect(tokenizer.write('a,b\r')).toEqual([['a', 'b']]);
+    expect(tokenizer.write('\nc,d')).toEqual([]);
+    expect(tokenizer.end()).toEqual([['c', 'd']]);
+  });
+});
+
+describe('parseCSVStream', () => {
+  it('parses a body arriving in small chunks, multi-byte characters included', async () => {
+    const text = '\uFEFFid,label\r\n1,"café, ""crème"""\r\n2,"two\nlines"\r\n\r\n';
+    const seen: string[] = [];
+
+    const rows = await parseCSVStream(streamOf(new TextEncoder().encode(text), 3), chunk => seen.push(chunk));
+
+    expect(rows).toEqual([['id', 'label'], ['1', 'café, "crème"'], ['2', 'two\nlines'], ['']]);
+    // The decoder drops the byte order mark before the text is passed on
+    expect(seen.join('')).toBe(text.slice(1));
+  });
+});
@@ -0,0 +1,212 @@
+// RFC 4180 CSV tokenizer.
+// Handles quoted fields containing commas, newlines and escaped ("") quotes,
+// CRLF / LF / CR line endings and a leading UTF-8 byte order mark. Input can be
+// fed in chunks, so a response body can be parsed while it is still streaming.
+// The delimiter is configurable, so tab-separated files parse the same way.
+
+export class CSVParseError extends Error {
+  // 1-based record (row) and field (column) of the malformed input, matching
+  // the row/column the user sees in the spreadsheet.
+  readonly row: number;
+  readonly column: number;
+
+  constructor(message: string, row: number, column: number) {
+    super(`${message} (row ${row}, column ${column})`);
+    this.name = 'CSVParseError';
+    this.row = row;
+    this.column = column;
+  }
+}
+
+type TokenizerState =
+  | 'fieldStart'   // at the beginning of a field
+  | 'unquoted'     // inside an unquoted field
+  | 'quoted'       // inside a quoted field
+  | 'quoteInQuoted'; // saw a quote inside a quoted field: escape or closing quote
+
+export class CSVTokenizer {
+  private readonly delimiter: string;
+  private state: TokenizerState = 'fieldStart';
+  private field = '';
+  private row: string[] = [];
+  private rows: string[][] = [];
+  private rowNumber = 1;
+  private started = false;
+  private skipLineFeed = false;
+  private finished = false;
+
+  constructor(delimiter = ',') {
+    this.delimiter = delimiter;
+  }
+
+  // Feed the next chunk of text; returns the records completed by this chunk
+  write(chunk: string): string[][] {
+    if (this.finished) {
+      throw new Error('CSVTokenizer.write called after end()');
+    }
+
+    let text = chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // A CR already ended the record; swallow the LF of a CRLF pair
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      switch (this.state) {
+        case 'fieldStart':
+          if (char === '"') {
+            this.state = 'quoted';
+          } else if (char === this.delimiter) {
+            this.endField();
+          } else if (char === '\r' || char === '\n') {
+            this.endRow(char);
+          } else {
+            this.field += char;
+            this.state = 'unquoted';
+          }
+          break;
+
+        case 'unquoted':
+          if (char === this.delimiter) {
+            this.endField();
+          } else if (char === '\r' || char === '\n') {
+            this.endRow(char);
+          } else if (char === '"') {
+            throw this.error('Unexpected quote in unquoted field');
+          } else {
+            this.field += char;
+          }
+          break;
+
+        case 'quoted':
+          if (char === '"') {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += char;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            this.field += '"';
+            this.state = 'quoted';
+          } else if (char === this.delimiter) {
+            this.endField();
+          } else if (char === '\r' || char === '\n') {
+            this.endRow(char);
+          } else {
+            throw this.error('Unexpected character after closing quote');
+          }
+          break;
+      }
+    }
+
+    return this.drain();
+  }
+
+  // Signal end of input; returns the final record, if any
+  end(): string[][] {
+    if (this.finished) return [];
+    this.finished = true;
+
+    if (this.state === 'quoted') {
+      throw this.error('Unterminated quoted field');
+    }
+
+    // Only emit a trailing record when something follows the last line break
+    if (this.state !== 'fieldStart' || this.row.length > 0) {
+      this.row.push(this.field);
+      this.rows.push(this.row);
+    }
+    this.field = '';
+    this.row = [];
+
+    return this.drain();
+  }
+
+  private endField() {
+    this.row.push(this.field);
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  private endRow(terminator: string) {
+    this.row.push(this.field);
+    this.rows.push(this.row);
+    this.field = '';
+    this.row = [];
+    this.state = 'fieldStart';
+    this.rowNumber++;
+    this.skipLineFeed = terminator === '\r';
+  }
+
+  private drain(): string[][] {
+    const completed = this.rows;
+    this.rows = [];
+    return completed;
+  }
+
+  private error(message: string): CSVParseError {
+    return new CSVParseError(message, this.rowNumber, this.row.length + 1);
+  }
+}
+
+// Parse a complete CSV document into records
+export function parseCSV(text: string, delimiter = ','): string[][] {
+  const tokenizer = new CSVTokenizer(delimiter);
+  return [...tokenizer.write(text), ...tokenizer.end()];
+}
+
+// Parse a streamed response body without buffering the whole text first.
+// onText sees every decoded chunk, e.g. to hash the content on the way.
+export async function parseCSVStream(
+  stream: ReadableStream<Uint8Array>,
+  onText?: (text: string) => void
+): Promise<string[][]> {
+  const tokenizer = new CSVTokenizer();
+  const decoder = new TextDecoder('utf-8');
+  const reader = stream.getReader();
+  const rows: string[][] = [];
+
+  const feed = (text: string) => {
+    onText?.(text);
+    rows.push(...tokenizer.write(text));
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    feed(decoder.decode(value, { stream: true }));
+  }
+
+  feed(decoder.decode());
+  rows.push(...tokenizer.end());
+  return rows;
+}
+
+// True for records produced by blank lines
+export function isBlankRow(row: string[]): boolean {
+  return row.every(cell => cell.trim() === '');
+}
+
+// Quote a field when it contains a delimiter, quote or line break
+function formatField(value: string): string {
+  return /[",\r\n]/.test(value) || /^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+// Serialize records as RFC 4180 CSV (CRLF line endings)
+export function formatCSV(rows: string[][]): string {
+  return rows.map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,43 @@
+import { ImageData } from '@/components/ImageGallery';
+
+// Finds images that point at the same picture, and merges them into one
+// while keeping what was written about each copy.
+
+export interface DuplicateGroup {
+  url: string;
+  images: ImageData[];
+}
+
+// Compare URLs without the fragment and with a lower-case host
+export function normalizeImageUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    return parsed.toString();
+  } catch (error) {
+    return url.trim();
+  }
+}
+
+// Groups of two or more images with the same URL, in gallery order
+export function findDuplicateGroups(images: ImageData[]): DuplicateGroup[] {
+  const byUrl = new Map<string, ImageData[]>();
+  for (const image of images) {
+    const url = normalizeImageUrl(image.url);
+    byUrl.set(url, [...(byUrl.get(url) ?? []), image]);
+  }
+  return [...byUrl.entries()]
+    .filter(([, group]) => group.length > 1)
+    .map(([url, group]) => ({ url, images: group }));
+}
+
+// Distinct non-empty labels of a group, first seen first
+export function distinctLabels(group: DuplicateGroup): string[] {
+  return [...new Set(group.images.map(image => image.label.trim()).filter(Boolean))];
+}
+
+// All distinct comments of a group, one paragraph each
+export function mergeComments(group: DuplicateGroup): string {
+  const comments = group.images.map(image => (image.comments || '').trim()).filter(Boolean);
+  return [...new Set(comments)].join('\n\n');
+}
@@ -0,0 +1,37 @@
+// Fast non-cryptographic 53-bit string hash (cyrb53), fed incrementally so
+// large responses can be hashed chunk by chunk. Good for change detection
+// and content-derived keys, not for anything security related.
+
+export interface Hasher {
+  update(text: string): Hasher;
+  digest(): string;
+}
+
+export function createHasher(seed = 0): Hasher {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+
+  const hasher: Hasher = {
+    update(text: string) {
+      for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+      }
+      return hasher;
+    },
+    digest() {
+      let a = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+      a ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+      let b = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+      b ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+      const value = 4294967296 * (2097151 & b) + (a >>> 0);
+      return value.toString(36);
+    },
+  };
+  return hasher;
+}
+
+export function hashString(text: string, seed = 0): string {
+  return createHasher(seed).update(text).digest();
+}
@@ -0,0 +1,31 @@
+import { hashString } from './hash';
+
+// Image IDs. New images get a random UUID; rows without an ID column get an
+// ID derived from their URL, which survives reordering the sheet.
+
+export function newImageId(): string {
+  return crypto.randomUUID();
+}
+
+// Hands out URL-derived IDs in row order. Repeats of a URL get a numeric
+// suffix ("-2", "-3", ...), so any two readers of the same rows agree.
+export function createUrlIdAllocator(): (url: string) => string {
+  const occurrences = new Map<string, number>();
+  return (url: string) => {
+    const key = url.trim();
+    const count = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, count);
+    const id = `url-${hashString(key)}`;
+    return count > 1 ? `${id}-${count}` : id;
+  };
+}
+
+export function isUrlDerivedId(id: string): boolean {
+  return /^url-[0-9a-z]+(-\d+)?$/.test(id);
+}
+
+// Whether `id` was derived from `url`, by any occurrence of it
+export function urlIdMatches(id: string, url: string): boolean {
+  const base = `url-${hashString(url.trim())}`;
+  return id === base || id.startsWith(`${base}-`);
+}
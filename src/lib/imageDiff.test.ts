@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { ImageData } from '@/components/ImageGallery';
+import { createRefreshMerger, diffImages, isEmptyDiff, mergeImages, summarizeDiff } from './imageDiff';
+
+const image = (id: string, label: string): ImageData => ({ id, url: `https://example.com/${id}.jpg`, label });
+
+describe('createRefreshMerger', () => {
+  it('brings a held image up to date on the first refresh after its edit closes', () => {
+    const editing = new Set(['a']);
+    const merger = createRefreshMerger(id => editing.has(id));
+    const shown = [image('a', 'cat'), image('b', 'dog')];
+    const fetched = [image('a', 'kitten'), image('b', 'puppy')];
+
+    // A poll arrives while "a" is being edited
+    expect(merger.needsMerge(false)).toBe(true);
+    const held = merger.merge(shown, fetched);
+    expect(held.map(img => img.label)).toEqual(['cat', 'puppy']);
+
+    // The edit closes and the next poll finds the source unchanged
+    editing.delete('a');
+    expect(merger.needsMerge(true)).toBe(true);
+    const caughtUp = merger.merge(held, fetched);
+    expect(caughtUp.map(img => img.label)).toEqual(['kitten', 'puppy']);
+
+    // Nothing is held any more, so unchanged polls can be skipped again
+    expect(merger.needsMerge(true)).toBe(false);
+  });
+
+  it('skips unchanged refreshes while a held image is already current', () => {
+    const merger = createRefreshMerger(id => id === 'a');
+    const shown = [image('a', 'cat')];
+
+    merger.merge(shown, [image('a', 'cat')]);
+    expect(merger.needsMerge(true)).toBe(false);
+  });
+
+  it('keeps a held image the source dropped until its edit closes', () => {
+    const editing = new Set(['a']);
+    const merger = createRefreshMerger(id => editing.has(id));
+
+    const held = merger.merge([image('a', 'cat'), image('b', 'dog')], [image('b', 'dog')]);
+    expect(held.map(img => img.id)).toEqual(['b', 'a']);
+    expect(merger.needsMerge(true)).toBe(true);
+
+    editing.clear();
+    expect(merger.merge(held, [image('b', 'dog')]).map(img => img.id)).toEqual(['b']);
+  });
+});
+
+describe('mergeImages', () => {
+  it('takes a refreshed image whose edit stamp alone changed', () => {
+    const before = { ...image('a', 'cat'), editedBy: 'Sam', editedAt: '2026-01-01T00:00:00.000Z' };
+    const after = { ...before, editedBy: 'Alex', editedAt: '2026-01-02T00:00:00.000Z' };
+
+    expect(mergeImages([before], [after])[0]).toBe(after);
+    expect(diffImages([before], [after]).changed).toEqual([]);
+  });
+
+  it('keeps the previous object of an unchanged image', () => {
+    const before = image('a', 'cat');
+    expect(mergeImages([before], [{ ...before }])[0]).toBe(before);
+  });
+});
+
+describe('diffImages', () => {
+  it('finds added, removed and changed images by ID', () => {
+    const a = image('a', 'cat');
+    const b = image('b', 'dog');
+    const c = { ...image('c', 'bird'), comments: 'blurry' };
+    const d = image('d', 'fish');
+
+    const movedA = { ...a, url: 'https://example.com/a-2.jpg' };
+    const editedC = { ...c, label: 'parrot', comments: '' };
+    const diff = diffImages([a, b, c], [editedC, movedA, d]);
+
+    expect(diff.added).toEqual([d]);
+    expect(diff.removed).toEqual([b]);
+    expect(diff.changed).toEqual([
+      { before: c, after: editedC, fields: ['label', 'comments'] },
+      { before: a, after: movedA, fields: ['url'] },
+    ]);
+  });
+
+  it('treats a missing field and an empty one as the same', () => {
+    const before = image('a', 'cat');
+    const diff = diffImages([before], [{ ...before, comments: '' }]);
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+});
+
+describe('summarizeDiff', () => {
+  const diffOf = (added: number, removed: number, changed: number) => ({
+    added: Array.from({ length: added }, (_, i) => image(`n${i}`, 'new')),
+    removed: Array.from({ length: removed }, (_, i) => image(`r${i}`, 'old')),
+    changed: Array.from({ length: changed }, (_, i) => ({
+      before: image(`c${i}`, 'cat'),
+      after: image(`c${i}`, 'kitten'),
+      fields: ['label' as const],
+    })),
+  });
+
+  it.each([
+    [2, 1, 3, '2 added, 1 removed, 3 changed'],
+    [1, 0, 0, '1 added'],
+    [0, 4, 0, '4 removed'],
+    [0, 2, 1, '2 removed, 1 changed'],
+    [0, 0, 0, 'No changes'],
+  ])('describes %i added, %i removed and %i changed as "%s"', (added, removed, changed, expected) => {
+    expect(summarizeDiff(diffOf(added, removed, changed))).toBe(expected);
+  });
+});
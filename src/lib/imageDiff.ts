@@ -0,0 +1,132 @@
+import { ImageData } from '@/components/ImageGallery';
+
+// Compares two image sets by ID: what was added, removed, and which fields
+// of the remaining images changed.
+
+// Text fields; regions aren't diffed
+export type ImageFieldKey = Exclude<keyof ImageData, 'regions'>;
+
+export interface ImageChange {
+  before: ImageData;
+  after: ImageData;
+  fields: ImageFieldKey[];
+}
+
+export interface ImageDiff {
+  added: ImageData[];
+  removed: ImageData[];
+  changed: ImageChange[];
+}
+
+// Fields a diff reports; an edit stamp moving on its own isn't a change
+const DIFFED_FIELDS: ImageFieldKey[] = ['url', 'label', 'comments'];
+// Fields that decide whether a card gets the refreshed object, so a new
+// "last edited" stamp still shows
+const MERGED_FIELDS: ImageFieldKey[] = [...DIFFED_FIELDS, 'editedBy', 'editedAt'];
+
+function changedFields(before: ImageData, after: ImageData, fields = DIFFED_FIELDS): ImageFieldKey[] {
+  return fields.filter(field => (before[field] || '') !== (after[field] || ''));
+}
+
+export function diffImages(previous: ImageData[], next: ImageData[]): ImageDiff {
+  const previousById = new Map(previous.map(image => [image.id, image]));
+  const nextIds = new Set(next.map(image => image.id));
+  const diff: ImageDiff = { added: [], removed: [], changed: [] };
+
+  for (const image of next) {
+    const before = previousById.get(image.id);
+    if (!before) {
+      diff.added.push(image);
+      continue;
+    }
+    const fields = changedFields(before, image);
+    if (fields.length > 0) {
+      diff.changed.push({ before, after: image, fields });
+    }
+  }
+
+  diff.removed = previous.filter(image => !nextIds.has(image.id));
+  return diff;
+}
+
+export function isEmptyDiff(diff: ImageDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+// Take the new set but keep the previous objects of unchanged images, so
+// their cards don't re-render
+export function mergeImages(previous: ImageData[], next: ImageData[]): ImageData[] {
+  const previousById = new Map(previous.map(image => [image.id, image]));
+  return next.map((image) => {
+    const before = previousById.get(image.id);
+    return before && changedFields(before, image, MERGED_FIELDS).length === 0 ? before : image;
+  });
+}
+
+// Apply a diff computed elsewhere, e.g. in another tab, to a local set
+export function applyDiff(images: ImageData[], diff: ImageDiff): ImageData[] {
+  const removedIds = new Set(diff.removed.map(image => image.id));
+  const changedById = new Map(diff.changed.map(change => [change.after.id, change.after]));
+  const result = images
+    .filter(image => !removedIds.has(image.id))
+    .map(image => changedById.get(image.id) ?? image);
+
+  const presentIds = new Set(result.map(image => image.id));
+  return [...result, ...diff.added.filter(image => !presentIds.has(image.id))];
+}
+
+// Take the new set but hold back the images matched by `keep`: they keep
+// their previous version, and stay even if the new set dropped them
+export function holdImages(previous: ImageData[], next: ImageData[], keep: (id: string) => boolean): ImageData[] {
+  const held = new Map(previous.filter(image => keep(image.id)).map(image => [image.id, image]));
+  if (held.size === 0) return next;
+
+  const result = next.map(image => held.get(image.id) ?? image);
+  const nextIds = new Set(next.map(image => image.id));
+  for (const image of held.values()) {
+    if (!nextIds.has(image.id)) result.push(image);
+  }
+  return result;
+}
+
+// Folds refreshed sets into the shown one, holding back the images matched
+// by `keep`. A source that finds nothing new since its last fetch reports
+// itself unchanged, so while a held image is out of date the next refresh
+// has to be folded in anyway, or the image would stay stale until the
+// source changes again.
+export function createRefreshMerger(keep: (id: string) => boolean) {
+  let holding = false;
+
+  return {
+    // Whether a refresh has to be folded in, even one the source reported
+    // unchanged
+    needsMerge(unchanged: boolean): boolean {
+      return !unchanged || holding;
+    },
+
+    merge(previous: ImageData[], next: ImageData[]): ImageData[] {
+      const nextById = new Map(next.map(image => [image.id, image]));
+      holding = previous.some((image) => {
+        if (!keep(image.id)) return false;
+        const fetched = nextById.get(image.id);
+        return !fetched || changedFields(image, fetched, MERGED_FIELDS).length > 0;
+      });
+      return holdImages(previous, next, keep);
+    },
+
+    // Forget held images, e.g. when another source is loaded
+    reset() {
+      holding = false;
+    },
+  };
+}
+
+// "2 added, 1 removed, 3 changed"
+export function summarizeDiff(diff: ImageDiff): string {
+  const parts = [
+    diff.added.length > 0 && `${diff.added.length} added`,
+    diff.removed.length > 0 && `${diff.removed.length} removed`,
+    diff.changed.length > 0 && `${diff.changed.length} changed`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
@@ -0,0 +1,26 @@
+// Natural pixel size of an image, read by loading it in the browser
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export function loadImageSize(url: string, timeoutMs = 15000): Promise<ImageSize> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    const timer = setTimeout(() => {
+      image.src = '';
+      reject(new Error(`Timed out loading ${url}`));
+    }, timeoutMs);
+
+    image.onload = () => {
+      clearTimeout(timer);
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    };
+    image.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error(`Could not load ${url}`));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { findVocabularyTerm } from './labelMatch';
+
+describe('findVocabularyTerm', () => {
+  it('matches case, spacing and regular plural variants', () => {
+    const vocabulary = ['dog', 'puppy', 'box', 'dish', 'glass', 'golden retriever'];
+    expect(findVocabularyTerm(' Dogs ', vocabulary)).toBe('dog');
+    expect(findVocabularyTerm('puppies', vocabulary)).toBe('puppy');
+    expect(findVocabularyTerm('Boxes', vocabulary)).toBe('box');
+    expect(findVocabularyTerm('dishes', vocabulary)).toBe('dish');
+    expect(findVocabularyTerm('glasses', vocabulary)).toBe('glass');
+    expect(findVocabularyTerm('Golden  Retrievers', vocabulary)).toBe('golden retriever');
+  });
+
+  it('matches "-es" plurals whether or not the singular ends in "e"', () => {
+    const vocabulary = ['bus', 'gas', 'house', 'class', 'fox', 'school bus'];
+    expect(findVocabularyTerm('buses', vocabulary)).toBe('bus');
+    expect(findVocabularyTerm('Gases', vocabulary)).toBe('gas');
+    expect(findVocabularyTerm('houses', vocabulary)).toBe('house');
+    expect(findVocabularyTerm('classes', vocabulary)).toBe('class');
+    expect(findVocabularyTerm('foxes', vocabulary)).toBe('fox');
+    expect(findVocabularyTerm('School Buses', vocabulary)).toBe('school bus');
+    expect(findVocabularyTerm('bus', ['buses'])).toBe('buses');
+  });
+
+  it('keeps words that only look plural apart', () => {
+    expect(findVocabularyTerm('news', ['new'])).toBeUndefined();
+    expect(findVocabularyTerm('new', ['news'])).toBeUndefined();
+    expect(findVocabularyTerm('serie', ['series'])).toBeUndefined();
+    expect(findVocabularyTerm('cactu', ['cactus'])).toBeUndefined();
+    expect(findVocabularyTerm('analysi', ['analysis'])).toBeUndefined();
+  });
+});
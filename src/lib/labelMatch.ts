@@ -0,0 +1,116 @@
+// Label comparison and ranking for autocomplete. Variants that differ only in
+// case, spacing or a regular English plural ("Dog ", "dogs", "puppies")
+// count as the same label.
+
+export interface LabelCandidate {
+  label: string;
+  // Images currently carrying the label
+  count: number;
+  // Part of the managed vocabulary, not just seen in the data
+  inVocabulary: boolean;
+}
+
+// "  Golden   Retrievers " -> "golden retrievers"
+export function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Words ending in "s" that are the same in the singular
+const INVARIANT_WORDS = new Set(['news', 'series', 'species', 'means']);
+
+// Forms a word may have in the singular: the word itself, plus for regular
+// plurals the word without "s" or "es" ("buses" -> "bus", "houses" ->
+// "house") or with "ies" turned into "y". Which one is right depends on the
+// word, so all of them are compared. Words like "glass", "cactus" or
+// "analysis" are left alone.
+function singularForms(word: string): string[] {
+  if (word.length <= 3 || INVARIANT_WORDS.has(word) || /(ss|us|is)$/.test(word)) return [word];
+  if (word.length > 4 && word.endsWith('ies')) return [word, `${word.slice(0, -3)}y`];
+  if (word.endsWith('es')) return [word, word.slice(0, -1), word.slice(0, -2)];
+  return word.endsWith('s') ? [word, word.slice(0, -1)] : [word];
+}
+
+// Normalized forms with the last word made singular, for variant matching
+function labelKeys(label: string): string[] {
+  const words = normalizeLabel(label).split(' ');
+  const stem = words.slice(0, -1).join(' ');
+  return singularForms(words[words.length - 1]).map(form => (stem ? `${stem} ${form}` : form));
+}
+
+function isVariant(keys: string[], label: string): boolean {
+  return labelKeys(label).some(key => keys.includes(key));
+}
+
+// The vocabulary term `label` is a variant of, if any
+export function findVocabularyTerm(label: string, vocabulary: string[]): string | undefined {
+  const keys = labelKeys(label);
+  return vocabulary.find(term => term === label.trim()) ?? vocabulary.find(term => isVariant(keys, term));
+}
+
+// Levenshtein distance, stopping early once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Lower is better; null when the candidate doesn't match at all
+function matchScore(query: string, label: string): number | null {
+  const candidate = normalizeLabel(label);
+  if (!query) return 0;
+  if (candidate === query || isVariant(labelKeys(query), candidate)) return 0;
+  if (candidate.startsWith(query)) return 1;
+  if (candidate.split(/[\s_/-]+/).some(word => word.startsWith(query))) return 2;
+  if (candidate.includes(query)) return 3;
+  // Typos: allow one edit per four characters typed
+  const allowed = Math.floor(query.length / 4);
+  if (allowed > 0 && editDistance(query, candidate.slice(0, query.length + allowed), allowed) <= allowed) return 4;
+  return null;
+}
+
+// Candidates matching `query`, best first: closer matches, then vocabulary
+// terms, then the labels used most, then alphabetical
+export function rankLabels(query: string, candidates: LabelCandidate[], limit = 8): LabelCandidate[] {
+  const normalized = normalizeLabel(query);
+  return candidates
+    .map(candidate => ({ candidate, score: matchScore(normalized, candidate.label) }))
+    .filter(({ score }) => score !== null)
+    .sort((a, b) =>
+      a.score - b.score ||
+      Number(b.candidate.inVocabulary) - Number(a.candidate.inVocabulary) ||
+      b.candidate.count - a.candidate.count ||
+      a.candidate.label.localeCompare(b.candidate.label)
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+// Vocabulary terms and labels in use, with usage counts
+export function collectLabelCandidates(vocabulary: string[], labels: string[]): LabelCandidate[] {
+  const byLabel = new Map<string, LabelCandidate>();
+  for (const term of vocabulary) {
+    byLabel.set(term, { label: term, count: 0, inVocabulary: true });
+  }
+  for (const raw of labels) {
+    const label = raw.trim();
+    if (!label) continue;
+    const existing = byLabel.get(label);
+    if (existing) {
+      existing.count++;
+    } else {
+      byLabel.set(label, { label, count: 1, inVocabulary: false });
+    }
+  }
+  return [...byLabel.values()];
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { SheetUrlError, buildCsvUrl, parseSheetUrl, withGid } from './sheetUrl';
+
+const ID = '1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms';
+const PUBLISHED_ID = '2PACX-1vTxyz_abc-123';
+
+describe('parseSheetUrl', () => {
+  it.each([
+    ['an edit link with a #gid fragment', `https://docs.google.com/spreadsheets/d/${ID}/edit#gid=42`, 'spreadsheet', ID, '42'],
+    ['an edit link with ?gid in the query', `https://docs.google.com/spreadsheets/d/${ID}/edit?gid=7`, 'spreadsheet', ID, '7'],
+    ['an edit link without a gid', `https://docs.google.com/spreadsheets/d/${ID}/edit`, 'spreadsheet', ID, undefined],
+    ['a link of a signed-in user, without the scheme', `docs.google.com/spreadsheets/u/1/d/${ID}/edit`, 'spreadsheet', ID, undefined],
+    ['an export link', `https://docs.google.com/spreadsheets/d/${ID}/export?format=csv&gid=3`, 'spreadsheet', ID, '3'],
+    ['a published /pubhtml link', `https://docs.google.com/spreadsheets/d/e/${PUBLISHED_ID}/pubhtml`, 'published', PUBLISHED_ID, undefined],
+    ['a published pub?output=csv link', `https://docs.google.com/spreadsheets/d/e/${PUBLISHED_ID}/pub?gid=5&single=true&output=csv`, 'published', PUBLISHED_ID, '5'],
+    ['a bare ID with surrounding space', `  ${ID} `, 'spreadsheet', ID, undefined],
+  ])('accepts %s', (_name, input, kind, id, gid) => {
+    const location = parseSheetUrl(input);
+    expect(location).toEqual({ kind, id, gid, csvUrl: buildCsvUrl(kind as 'spreadsheet' | 'published', id, gid) });
+  });
+
+  it.each([
+    ['an empty string', '   ', 'Please enter a Google Sheets link or ID'],
+    ['another host', `https://example.com/spreadsheets/d/${ID}/edit`, undefined],
+    ['a Google Docs document', `https://docs.google.com/document/d/${ID}/edit`, undefined],
+    ['a short word', 'not-a-sheet', undefined],
+    ['a malformed URL', 'https://docs.google.com:port/x', undefined],
+  ])('rejects %s', (_name, input, message) => {
+    expect(() => parseSheetUrl(input)).toThrow(SheetUrlError);
+    expect(() => parseSheetUrl(input)).toThrow(message ?? 'This doesn\'t look like a Google Sheets link or ID');
+  });
+});
+
+describe('buildCsvUrl', () => {
+  it.each([
+    ['spreadsheet', undefined, `https://docs.google.com/spreadsheets/d/${ID}/export?format=csv`],
+    ['spreadsheet', '42', `https://docs.google.com/spreadsheets/d/${ID}/export?format=csv&gid=42`],
+    ['published', undefined, `https://docs.google.com/spreadsheets/d/e/${ID}/pub?output=csv`],
+    ['published', '42', `https://docs.google.com/spreadsheets/d/e/${ID}/pub?gid=42&single=true&output=csv`],
+  ] as const)('builds the %s CSV link for gid %s', (kind, gid, expected) => {
+    expect(buildCsvUrl(kind, ID, gid)).toBe(expected);
+  });
+});
+
+describe('withGid', () => {
+  it('moves to another tab and back to the first', () => {
+    const location = parseSheetUrl(`https://docs.google.com/spreadsheets/d/${ID}/edit#gid=42`);
+
+    const other = withGid(location, '9');
+    expect(other).toEqual({ ...location, gid: '9', csvUrl: buildCsvUrl('spreadsheet', ID, '9') });
+
+    const first = withGid(other, undefined);
+    expect(first.gid).toBeUndefined();
+    expect(first.csvUrl).toBe(`https://docs.google.com/spreadsheets/d/${ID}/export?format=csv`);
+  });
+
+  it('keeps a published document published', () => {
+    const location = parseSheetUrl(`https://docs.google.com/spreadsheets/d/e/${PUBLISHED_ID}/pubhtml`);
+    expect(withGid(location, '5').csvUrl).toBe(buildCsvUrl('published', PUBLISHED_ID, '5'));
+  });
+});
@@ -0,0 +1,88 @@
+// Normalizes the many shapes of Google Sheets links into one location.
+// Accepted: edit links, /pub and /pubhtml links of published documents,
+// export?format=csv links and bare spreadsheet IDs. The tab gid is kept so
+// sheets other than the first can be loaded.
+
+export interface SheetLocation {
+  // 'spreadsheet': a real spreadsheet ID (edit/export links, bare IDs).
+  // 'published': a "Publish to web" ID (/d/e/2PACX-...), which can be read
+  // but not written through the Sheets API.
+  kind: 'spreadsheet' | 'published';
+  id: string;
+  // Tab to load; undefined means the first tab
+  gid?: string;
+  csvUrl: string;
+}
+
+const SHEETS_ORIGIN = 'https://docs.google.com/spreadsheets';
+const PUBLISHED_PATH = /\/spreadsheets\/(?:u\/\d+\/)?d\/e\/([a-zA-Z0-9-_]+)/;
+const SPREADSHEET_PATH = /\/spreadsheets\/(?:u\/\d+\/)?d\/([a-zA-Z0-9-_]+)/;
+const BARE_ID = /^[a-zA-Z0-9-_]{25,}$/;
+
+export class SheetUrlError extends Error {
+  constructor(message = 'This doesn\'t look like a Google Sheets link or ID') {
+    super(message);
+    this.name = 'SheetUrlError';
+  }
+}
+
+// gid from the query string or the #gid= fragment
+function extractGid(url: URL): string | undefined {
+  const fromQuery = url.searchParams.get('gid');
+  if (fromQuery && /^\d+$/.test(fromQuery)) return fromQuery;
+
+  const fromHash = url.hash.match(/gid=(\d+)/);
+  return fromHash ? fromHash[1] : undefined;
+}
+
+export function buildCsvUrl(kind: SheetLocation['kind'], id: string, gid?: string): string {
+  if (kind === 'published') {
+    const params = new URLSearchParams(gid ? { gid, single: 'true', output: 'csv' } : { output: 'csv' });
+    return `${SHEETS_ORIGIN}/d/e/${id}/pub?${params}`;
+  }
+
+  const params = new URLSearchParams(gid ? { format: 'csv', gid } : { format: 'csv' });
+  return `${SHEETS_ORIGIN}/d/${id}/export?${params}`;
+}
+
+export function parseSheetUrl(input: string): SheetLocation {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new SheetUrlError('Please enter a Google Sheets link or ID');
+  }
+
+  if (BARE_ID.test(trimmed)) {
+    return { kind: 'spreadsheet', id: trimmed, csvUrl: buildCsvUrl('spreadsheet', trimmed) };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`);
+  } catch (error) {
+    throw new SheetUrlError();
+  }
+  if (url.hostname !== 'docs.google.com') {
+    throw new SheetUrlError();
+  }
+
+  const gid = extractGid(url);
+
+  const published = url.pathname.match(PUBLISHED_PATH);
+  if (published) {
+    const id = published[1];
+    return { kind: 'published', id, gid, csvUrl: buildCsvUrl('published', id, gid) };
+  }
+
+  const spreadsheet = url.pathname.match(SPREADSHEET_PATH);
+  if (spreadsheet) {
+    const id = spreadsheet[1];
+    return { kind: 'spreadsheet', id, gid, csvUrl: buildCsvUrl('spreadsheet', id, gid) };
+  }
+
+  throw new SheetUrlError();
+}
+
+// Same location, different tab
+export function withGid(location: SheetLocation, gid: string | undefined): SheetLocation {
+  return { ...location, gid, csvUrl: buildCsvUrl(location.kind, location.id, gid) };
+}
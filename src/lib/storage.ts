@@ -0,0 +1,23 @@
+// Helpers for browser storage failures
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full. Remove unused connections or free up space, then try again.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// localStorage and IndexedDB both report a full quota as a DOMException,
+// named differently across browsers
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22
+  );
+}
+
+// Rethrow quota failures as StorageQuotaError, anything else unchanged
+export function toStorageError(error: unknown): unknown {
+  return isQuotaExceededError(error) ? new StorageQuotaError() : error;
+}
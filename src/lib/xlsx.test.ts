@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { readXlsxRows } from './xlsx';
+
+const MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOC_RELS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+interface WorkbookParts {
+  // Contents of <sheetData>
+  sheetData: string;
+  // Contents of <sst>, when the workbook has shared strings
+  sharedStrings?: string;
+  // Where the workbook relationship points for the first sheet
+  target?: string;
+}
+
+async function workbook({ sheetData, sharedStrings, target = 'worksheets/sheet1.xml' }: WorkbookParts): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file('xl/workbook.xml',
+    `<workbook xmlns="${MAIN}" xmlns:r="${DOC_RELS}"><sheets><sheet name="Images" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels',
+    `<Relationships xmlns="${RELS}"><Relationship Id="rId1" Type="${DOC_RELS}/worksheet" Target="${target}"/></Relationships>`);
+  const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  zip.file(sheetPath, `<worksheet xmlns="${MAIN}"><sheetData>${sheetData}</sheetData></worksheet>`);
+  if (sharedStrings !== undefined) {
+    zip.file('xl/sharedStrings.xml', `<sst xmlns="${MAIN}">${sharedStrings}</sst>`);
+  }
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+describe('readXlsxRows', () => {
+  it('resolves shared strings, joining rich text runs without phonetic hints', async () => {
+    const data = await workbook({
+      sharedStrings:
+        '<si><t>id</t></si>' +
+        '<si><t>label</t></si>' +
+        '<si><r><t>Ocean </t></r><r><rPr><b/></rPr><t>Sunset</t></r></si>' +
+        '<si><t>猫</t><rPh sb="0" eb="1"><t>ねこ</t></rPh></si>',
+      sheetData:
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2"><v>1</v></c><c r="B2" t="s"><v>2</v></c></row>' +
+        '<row r="3"><c r="A3"><v>2</v></c><c r="B3" t="s"><v>3</v></c></row>',
+    });
+
+    expect(await readXlsxRows(data)).toEqual([
+      ['id', 'label'],
+      ['1', 'Ocean Sunset'],
+      ['2', '猫'],
+    ]);
+  });
+
+  it('reads inline strings, booleans and raw numbers', async () => {
+    const data = await workbook({
+      sheetData:
+        '<row r="1">' +
+        '<c r="A1" t="inlineStr"><is><r><t>in</t></r><r><t>line</t></r></is></c>' +
+        '<c r="B1" t="b"><v>1</v></c>' +
+        '<c r="C1" t="b"><v>0</v></c>' +
+        '<c r="D1"><v>45292.5</v></c>' +
+        '</row>',
+    });
+
+    expect(await readXlsxRows(data)).toEqual([['inline', 'TRUE', 'FALSE', '45292.5']]);
+  });
+
+  it('places sparse rows and cells by their references, including columns past Z', async () => {
+    const data = await workbook({
+      sheetData:
+        '<row r="1"><c r="A1" t="inlineStr"><is><t>a</t></is></c><c r="C1" t="inlineStr"><is><t>c</t></is></c></row>' +
+        '<row r="3"><c r="AA3" t="inlineStr"><is><t>aa</t></is></c></row>' +
+        // Without references, rows and cells follow on from the previous ones
+        '<row><c t="inlineStr"><is><t>x</t></is></c><c t="inlineStr"><is><t>y</t></is></c></row>',
+    });
+
+    const rows = await readXlsxRows(data);
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toEqual(['a', '', 'c']);
+    expect(rows[1]).toEqual([]);
+    expect(rows[2]).toHaveLength(27);
+    expect(rows[2][26]).toBe('aa');
+    expect(rows[2].slice(0, 26).every(cell => cell === '')).toBe(true);
+    expect(rows[3]).toEqual(['x', 'y']);
+  });
+
+  it('follows a relationship target that is absolute within the package', async () => {
+    const data = await workbook({
+      target: '/xl/worksheets/data.xml',
+      sheetData: '<row r="1"><c r="A1" t="inlineStr"><is><t>found</t></is></c></row>',
+    });
+
+    expect(await readXlsxRows(data)).toEqual([['found']]);
+  });
+
+  it('rejects a file that is not a zip archive', async () => {
+    const data = new TextEncoder().encode('id,url\n1,https://example.com/a.jpg').buffer;
+    await expect(readXlsxRows(data)).rejects.toThrow('The file is not a valid .xlsx workbook');
+  });
+
+  it('rejects a zip archive without a workbook', async () => {
+    const zip = new JSZip();
+    zip.file('readme.txt', 'not a workbook');
+    const data = await zip.generateAsync({ type: 'arraybuffer' });
+    await expect(readXlsxRows(data)).rejects.toThrow('The workbook has no worksheets');
+  });
+});
@@ -0,0 +1,108 @@
+import JSZip from 'jszip';
+
+// Minimal reader for the first worksheet of an .xlsx workbook. Cells come
+// back as the text Excel stores: shared and inline strings as written,
+// numbers and dates as their raw values, booleans as TRUE / FALSE.
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The workbook contains malformed XML');
+  }
+  return doc;
+}
+
+function elements(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  return file ? parseXml(await file.async('text')) : null;
+}
+
+// "BC12" -> 54 (0-based column index)
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Path of the first worksheet, following the workbook's relationships
+async function firstSheetPath(zip: JSZip): Promise<string> {
+  const workbook = await readXml(zip, 'xl/workbook.xml');
+  const rels = await readXml(zip, 'xl/_rels/workbook.xml.rels');
+  const sheet = workbook && elements(workbook, 'sheet')[0];
+  if (!sheet || !rels) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const relId = Array.from(sheet.attributes).find(attr => attr.localName === 'id')?.value;
+  const target = elements(rels, 'Relationship').find(rel => rel.getAttribute('Id') === relId)?.getAttribute('Target');
+  if (!target) {
+    throw new Error('The workbook has no worksheets');
+  }
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+async function sharedStrings(zip: JSZip): Promise<string[]> {
+  const doc = await readXml(zip, 'xl/sharedStrings.xml');
+  if (!doc) return [];
+  // Rich text splits a string into runs; phonetic hints (rPh) aren't part of it
+  return elements(doc, 'si').map(si =>
+    elements(si, 't')
+      .filter(t => t.parentElement?.localName !== 'rPh')
+      .map(t => t.textContent ?? '')
+      .join('')
+  );
+}
+
+function cellText(cell: Element, strings: string[]): string {
+  const type = cell.getAttribute('t');
+  const value = elements(cell, 'v')[0]?.textContent ?? '';
+  switch (type) {
+    case 's':
+      return strings[Number(value)] ?? '';
+    case 'inlineStr':
+      return elements(cell, 't').map(t => t.textContent ?? '').join('');
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    default:
+      return value;
+  }
+}
+
+export async function readXlsxRows(data: ArrayBuffer): Promise<string[][]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw new Error('The file is not a valid .xlsx workbook');
+  }
+
+  const [path, strings] = await Promise.all([firstSheetPath(zip), sharedStrings(zip)]);
+  const sheet = await readXml(zip, path);
+  if (!sheet) {
+    throw new Error('The first worksheet is missing from the workbook');
+  }
+
+  const rows: string[][] = [];
+  elements(sheet, 'row').forEach((rowElement) => {
+    // Rows and cells may skip empty positions; their references say where they go
+    const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1;
+    while (rows.length < rowNumber - 1) rows.push([]);
+
+    const row: string[] = [];
+    elements(rowElement, 'c').forEach((cell) => {
+      const reference = cell.getAttribute('r');
+      const column = reference ? columnIndex(reference) : row.length;
+      while (row.length < column) row.push('');
+      row[column] = cellText(cell, strings);
+    });
+    rows[rowNumber - 1] = row;
+  });
+  return rows;
+}
@@ -1,69 +1,444 @@
-import { useState, useEffect } from 'react';
-import { ImageGallery, ImageData } from '@/components/ImageGallery';
-import { googleSheetsService } from '@/services/googleSheets';
+import { useState, useEffect, useRef } from 'react';
+import { FieldEdit, ImageGallery, ImageData } from '@/components/ImageGallery';
+import { getActiveDataSource } from '@/services/dataSources';
+import { useActiveConnection, useDataSource } from '@/hooks/use-data-source';
+import { useConflicts, usePendingChanges } from '@/hooks/use-sync-queue';
+import { ConflictResolution, MutationField, SubmitResult, syncQueue } from '@/services/syncQueue';
+import { Command, commandHistory, groupCommands } from '@/services/commandHistory';
+import { ImportReport } from '@/services/rowImport';
+import { DataSource, SourceStatus } from '@/services/dataSource';
+import { ImageDiff, applyDiff, createRefreshMerger, diffImages, isEmptyDiff, mergeImages } from '@/lib/imageDiff';
+import { isBeingEdited } from '@/lib/activeEdits';
+import { useAutoSync } from '@/hooks/use-auto-sync';
+import { useIsLeader } from '@/hooks/use-tab-sync';
+import { useUndoShortcuts } from '@/hooks/use-command-history';
+import { broadcast, subscribeToTabs } from '@/services/tabSync';
+import { NewRevision, appendRevisions } from '@/services/revisions';
+import { createEditStamp, getAnnotatorName, stampFields } from '@/services/annotator';
 import { useToast } from '@/hooks/use-toast';
 
+// Log edits without letting a logging failure fail the edit
+function logRevisions(revisions: NewRevision[]) {
+  appendRevisions(revisions).catch(error => console.error('Failed to record revisions:', error));
+}
+
+// Edits run from a click or key press, so a source that needs the user's
+// permission to write, such as a Google sign-in, may ask for it first. A
+// dismissed prompt isn't an error of its own: the write then queues or fails
+// as it would have without it.
+async function allowSignIn(source: DataSource) {
+  try {
+    await source.signIn?.();
+  } catch (error) {
+    console.warn('Sign-in was not completed:', error);
+  }
+}
+
+// A change made in this browser, credited to its annotator
+function localRevision(sourceId: string, imageId: string, field: MutationField, oldValue: string, newValue: string): NewRevision {
+  return { sourceId, imageId, field, oldValue, newValue, editor: getAnnotatorName(), origin: 'local' };
+}
+
+// Revisions for fields a refresh found changed at the source, credited to
+// the row's "Edited by" cell when the sheet has one
+function remoteRevisions(sourceId: string, sourceName: string, diff: ImageDiff): NewRevision[] {
+  return diff.changed.flatMap(({ before, after, fields }) =>
+    fields
+      .filter((field): field is MutationField => field === 'label' || field === 'comments')
+      .map(field => ({
+        sourceId,
+        imageId: after.id,
+        field,
+        oldValue: before[field] ?? '',
+        newValue: after[field] ?? '',
+        editor: after.editedBy ?? '',
+        origin: 'remote' as const,
+        sourceName,
+      }))
+  );
+}
+
 const Index = () => {
   const [images, setImages] = useState<ImageData[]>([]);
   const [loading, setLoading] = useState(true);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [sourceStatus, setSourceStatus] = useState<SourceStatus | null>(null);
+  // Changes brought in by the latest background poll
+  const [syncedDiff, setSyncedDiff] = useState<ImageDiff | null>(null);
+  const dataSource = useDataSource();
+  const activeConnection = useActiveConnection();
+  const pendingChanges = usePendingChanges();
+  const conflicts = useConflicts();
+  const isLeader = useIsLeader();
   const { toast } = useToast();
+  // Latest images and the source they came from, for diffing on refresh
+  const imagesRef = useRef<ImageData[]>([]);
+  const loadedSourceIdRef = useRef<string | null>(null);
+  // IDs of deleted images that undo added back under a new ID
+  const restoredIdsRef = useRef(new Map<string, string>());
+  // Holds back images with an open editor on reload, and brings them up to
+  // date on the first reload after the editor closes
+  const refreshMergerRef = useRef(createRefreshMerger(isBeingEdited));
+  // Read by the poller, which runs outside the render that scheduled it
+  const loadingRef = useRef(false);
+  const sourceStatusRef = useRef<SourceStatus | null>(null);
+  imagesRef.current = images;
+  sourceStatusRef.current = sourceStatus;
+
+  useUndoShortcuts();
 
-  const loadImages = async () => {
+  // Load the active source. A reload of the same source is merged into the
+  // current set and described by a diff; a first load or switch replaces it.
+  // Images with an open editor keep their current version on reload.
+  const loadImages = async (): Promise<{ status: SourceStatus; diff: ImageDiff | null }> => {
+    loadingRef.current = true;
     try {
-      setLoading(true);
-      const fetchedImages = await googleSheetsService.fetchImages();
-      setImages(fetchedImages);
+      const source = getActiveDataSource();
+      const isReload = loadedSourceIdRef.current === source.id;
+      if (!isReload) {
+        setLoading(true);
+        refreshMergerRef.current.reset();
+      }
+
+      const { images: fetchedImages, status, unchanged } = await source.fetchImages();
+      if (isReload && !refreshMergerRef.current.needsMerge(!!unchanged)) {
+        if (sourceStatusRef.current?.state !== 'live') setSourceStatus(status);
+        return { status, diff: { added: [], removed: [], changed: [] } };
+      }
+
+      const reconciled = await syncQueue.reconcile(source.id, fetchedImages);
+      const nextImages = isReload ? refreshMergerRef.current.merge(imagesRef.current, reconciled) : reconciled;
+      const diff = isReload ? diffImages(imagesRef.current, nextImages) : null;
+
+      setImages(isReload ? mergeImages(imagesRef.current, nextImages) : nextImages);
+      loadedSourceIdRef.current = source.id;
+      if (diff && !isEmptyDiff(diff)) {
+        broadcast({ type: 'images-refreshed', sourceId: source.id, diff });
+        logRevisions(remoteRevisions(source.id, source.name, diff));
+      }
+      setSourceStatus(status);
+      if (status.state === 'live') {
+        setImportReport(source.getImportReport?.() ?? null);
+      }
+      return { status, diff };
     } catch (error) {
+      const status: SourceStatus = {
+        state: 'error',
+        error: error instanceof Error ? error.message : 'Could not load images from your data source.',
+      };
+      setSourceStatus(status);
       toast({
         title: "Failed to load images",
-        description: "Could not load images from your data source. Using demo data.",
+        description: status.error,
         variant: "destructive",
       });
+      return { status, diff: null };
     } finally {
+      loadingRef.current = false;
       setLoading(false);
     }
   };
 
-  const handleUpdateLabel = async (id: string, newLabel: string) => {
+  // The ID an image has now, following re-adds made by undo
+  const currentId = (id: string): string => {
+    let resolved = id;
+    while (restoredIdsRef.current.has(resolved)) {
+      resolved = restoredIdsRef.current.get(resolved);
+    }
+    return resolved;
+  };
+
+  // Write one field through the sync queue and show it here and in other
+  // tabs. Resolves to whether it reached the source, was queued or conflicts.
+  // A conflicting edit is only logged once resolved, with the value that won.
+  const writeField = async (id: string, field: MutationField, value: string, previous: string): Promise<SubmitResult> => {
+    const source = getActiveDataSource();
+    await allowSignIn(source);
+    const stamp = createEditStamp();
+    const result = await syncQueue.submit(source, id, field, value, previous, stamp);
+    const changes = { [field]: value, ...stampFields(stamp) };
+    setImages(prev =>
+      prev.map(img =>
+        img.id === id ? { ...img, ...changes } : img
+      )
+    );
+    broadcast({ type: 'image-updated', sourceId: source.id, imageId: id, changes });
+    if (result !== 'conflict') {
+      logRevisions([localRevision(source.id, id, field, previous, value)]);
+    }
+    return result;
+  };
+
+  // The command keeps the result of its latest write for the save toast
+  const fieldCommand = (image: ImageData, field: MutationField, value: string): FieldEdit => {
+    const previous = image[field] ?? '';
+    const command = {
+      description: `${field === 'label' ? 'Label' : 'Comments'} of "${image.label || image.id}"`,
+      result: 'synced' as SubmitResult,
+      apply: async () => {
+        command.result = await writeField(currentId(image.id), field, value, previous);
+      },
+      revert: async () => {
+        command.result = await writeField(currentId(image.id), field, previous, value);
+      },
+    };
+    return command;
+  };
+
+  // Add an image to the source at a position in the gallery. Sources may
+  // assign a new ID, so the added image is returned.
+  const insertImage = async (image: Omit<ImageData, 'id'>, index: number): Promise<ImageData> => {
+    const source = getActiveDataSource();
+    await allowSignIn(source);
+    const added = await source.addImage(image.url, image.label, createEditStamp());
+    setImages(prev => {
+      const next = prev.filter(img => img.id !== added.id);
+      next.splice(index === -1 ? next.length : Math.min(index, next.length), 0, added);
+      return next;
+    });
+    broadcast({ type: 'image-added', sourceId: source.id, image: added });
+
+    if (image.comments && source.capabilities.supportsComments) {
+      await writeField(added.id, 'comments', image.comments, '');
+      return { ...added, comments: image.comments };
+    }
+    return added;
+  };
+
+  const removeImage = async (id: string) => {
+    const source = getActiveDataSource();
+    await allowSignIn(source);
+    await source.deleteImage(id);
+    setImages(prev => prev.filter(img => img.id !== id));
+    broadcast({ type: 'images-removed', sourceId: source.id, imageIds: [id] });
+  };
+
+  const addCommand = (url: string, label: string): Command => {
+    let added: ImageData | null = null;
+    return {
+      description: `Add "${label || url}"`,
+      apply: async () => {
+        const previousId = added?.id;
+        added = await insertImage({ url, label, comments: added?.comments }, -1);
+        if (previousId) restoredIdsRef.current.set(previousId, added.id);
+      },
+      revert: () => removeImage(currentId(added.id)),
+    };
+  };
+
+  // Undoing a delete adds the image back where it was, with its comments
+  const deleteCommand = (image: ImageData): Command => {
+    let index = -1;
+    return {
+      description: `Delete "${image.label || image.id}"`,
+      apply: async () => {
+        const id = currentId(image.id);
+        index = imagesRef.current.findIndex(img => img.id === id);
+        await removeImage(id);
+      },
+      revert: async () => {
+        const id = currentId(image.id);
+        const restored = await insertImage(image, index);
+        if (restored.id !== id) restoredIdsRef.current.set(id, restored.id);
+      },
+    };
+  };
+
+  // Edits go through the command history so they can be undone
+  const handleUpdateLabel = async (id: string, newLabel: string): Promise<FieldEdit> => {
     try {
-      await googleSheetsService.updateImageLabel(id, newLabel);
-      setImages(prev => 
-        prev.map(img => 
-          img.id === id ? { ...img, label: newLabel } : img
-        )
-      );
+      const current = images.find(img => img.id === id) ?? { id, url: '', label: '' };
+      return await commandHistory.execute(fieldCommand(current, 'label', newLabel));
     } catch (error) {
-      throw new Error('Failed to update label');
+      throw error instanceof Error ? error : new Error('Failed to update label');
     }
   };
 
-  const handleUpdateComments = async (id: string, newComments: string) => {
+  const handleUpdateComments = async (id: string, newComments: string): Promise<FieldEdit> => {
     try {
-      await googleSheetsService.updateImageComments(id, newComments);
-      setImages(prev => 
-        prev.map(img => 
-          img.id === id ? { ...img, comments: newComments } : img
-        )
-      );
+      const current = images.find(img => img.id === id) ?? { id, url: '', label: '' };
+      return await commandHistory.execute(fieldCommand(current, 'comments', newComments));
     } catch (error) {
-      throw new Error('Failed to update comments');
+      throw error instanceof Error ? error : new Error('Failed to update comments');
+    }
+  };
+
+  const handleAddImage = (url: string, label: string): Promise<Command> =>
+    commandHistory.execute(addCommand(url, label));
+
+  const handleDeleteImage = async (id: string): Promise<Command | null> => {
+    const image = images.find(img => img.id === id);
+    if (!image) return null;
+    return commandHistory.execute(deleteCommand(image));
+  };
+
+  const handleResolveConflict = async (key: string, resolution: ConflictResolution) => {
+    const conflict = conflicts.find(c => c.key === key);
+    if (!conflict) return;
+
+    const source = getActiveDataSource();
+    await allowSignIn(source);
+    const stamp = resolution.kind === 'theirs' ? undefined : createEditStamp();
+    const value = await syncQueue.resolveConflict(source, key, resolution, stamp);
+    const changes = { [conflict.field]: value, ...stampFields(stamp) };
+    setImages(prev =>
+      prev.map(img =>
+        img.id === conflict.imageId ? { ...img, ...changes } : img
+      )
+    );
+    broadcast({ type: 'image-updated', sourceId: source.id, imageId: conflict.imageId, changes });
+    // One entry for the value that won: the remote change when theirs was
+    // kept, otherwise this edit written over it
+    const { baseValue, field, imageId } = conflict;
+    const theirs = conflict.conflict?.theirs ?? '';
+    logRevisions([
+      resolution.kind === 'theirs'
+        ? {
+            sourceId: source.id,
+            imageId,
+            field,
+            oldValue: baseValue,
+            newValue: theirs,
+            editor: '',
+            origin: 'remote',
+            sourceName: source.name,
+          }
+        : localRevision(source.id, imageId, field, theirs, value),
+    ]);
+  };
+
+  // Fold duplicate entries into one: the kept image takes the chosen label
+  // and the combined comments, the other copies are deleted at the source.
+  // The steps that went through are undone together.
+  const handleMergeDuplicates = async (keepId: string, label: string, comments: string, removeIds: string[]): Promise<Command | null> => {
+    const keep = images.find(img => img.id === keepId);
+    if (!keep) return null;
+
+    const steps: Command[] = [];
+    if (label && label !== keep.label) {
+      steps.push(fieldCommand(keep, 'label', label));
+    }
+    if (comments !== (keep.comments || '')) {
+      steps.push(fieldCommand(keep, 'comments', comments));
+    }
+    for (const image of images.filter(img => removeIds.includes(img.id))) {
+      steps.push(deleteCommand(image));
     }
+
+    const done: Command[] = [];
+    let merge: Command | null = null;
+    try {
+      for (const step of steps) {
+        await step.apply();
+        done.push(step);
+      }
+    } finally {
+      if (done.length > 0) {
+        merge = groupCommands(`Merge duplicates of "${label || keep.label}"`, done);
+        commandHistory.record(merge);
+      }
+    }
+    return merge;
   };
 
-  const handleRefresh = async () => {
-    await loadImages();
+  // Only a live read counts as a successful refresh
+  const handleRefresh = async (): Promise<ImageDiff | null> => {
+    const { status, diff } = await loadImages();
+    if (status.state === 'cached' || status.state === 'error') {
+      throw new Error(status.error);
+    }
+    return diff;
   };
 
+  // Background polling, run by one tab only; failures throw so the poller
+  // backs off
+  const polling = activeConnection.polling;
+  useAutoSync({ ...polling, enabled: polling.enabled && isLeader }, async () => {
+    if (loadingRef.current) return;
+    const { status, diff } = await loadImages();
+    if (status.state === 'cached' || status.state === 'error') {
+      throw new Error(status.error);
+    }
+    if (diff && !isEmptyDiff(diff)) {
+      setSyncedDiff(diff);
+    }
+  });
+
+  // Apply changes made in other tabs to the same source
   useEffect(() => {
-    loadImages();
+    return subscribeToTabs((message) => {
+      if (message.type === 'queue-changed' || message.sourceId !== loadedSourceIdRef.current) return;
+
+      switch (message.type) {
+        case 'image-updated':
+          setImages(prev =>
+            prev.map(img => (img.id === message.imageId ? { ...img, ...message.changes } : img))
+          );
+          break;
+        case 'image-added':
+          setImages(prev => (prev.some(img => img.id === message.image.id) ? prev : [...prev, message.image]));
+          break;
+        case 'images-removed': {
+          const removed = new Set(message.imageIds);
+          setImages(prev => prev.filter(img => !removed.has(img.id)));
+          break;
+        }
+        case 'images-refreshed':
+          setImages(prev => applyDiff(prev, message.diff));
+          setSyncedDiff(message.diff);
+          break;
+      }
+    });
   }, []);
 
+  // Load on mount and whenever another connection is activated
+  useEffect(() => {
+    commandHistory.clear();
+    restoredIdsRef.current.clear();
+    loadImages();
+  }, [dataSource]);
+
+  // Background retries that fail for good are reported here
+  useEffect(() => {
+    return syncQueue.onDropped((mutation, error) => {
+      toast({
+        title: "Change could not be synced",
+        description: `Your ${mutation.field} edit was discarded: ${error.message}`,
+        variant: "destructive",
+      });
+    });
+  }, [toast]);
+
+  // Conflict detection can't work without stored bases, so say when they fail
+  useEffect(() => {
+    return syncQueue.onStorageError((error) => {
+      toast({
+        title: "Could not save sync state",
+        description: `${error.message} Changes others make to the same fields may be overwritten without a conflict warning.`,
+        variant: "destructive",
+      });
+    });
+  }, [toast]);
+
   return (
     <ImageGallery
       images={images}
       onUpdateLabel={handleUpdateLabel}
       onUpdateComments={handleUpdateComments}
       onRefresh={handleRefresh}
+      syncedDiff={syncedDiff}
+      capabilities={dataSource.capabilities}
+      pendingChanges={pendingChanges}
+      conflicts={conflicts}
+      onResolveConflict={handleResolveConflict}
+      onMergeDuplicates={handleMergeDuplicates}
+      onAddImage={handleAddImage}
+      onDeleteImage={handleDeleteImage}
+      sourceStatus={sourceStatus}
+      sourceId={activeConnection.id}
+      sourceName={activeConnection.name}
+      importReport={importReport}
+      onDismissImportReport={() => setImportReport(null)}
       loading={loading}
     />
   );
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { ImageData } from '@/components/ImageGallery';
+import { ImageSizes, exportAnnotations } from './annotationExport';
+
+const CATEGORIES = [{ id: 1, name: 'cat' }, { id: 2, name: 'dog' }];
+
+const IMAGES: ImageData[] = [
+  { id: 'a', url: 'https://example.com/a.jpg', label: 'cat' },
+  { id: 'b', url: 'https://example.com/b.png', label: 'dog' },
+  { id: 'c', url: 'https://example.com/c.jpg', label: '', regions: [{ label: 'dog', x: 10, y: 20, width: 30, height: 40 }] },
+];
+
+// "b" failed to load and "c" reported no pixels
+const SIZES: ImageSizes = new Map([
+  ['a', { width: 200, height: 100 }],
+  ['c', { width: 0, height: 0 }],
+]);
+
+async function zipFiles(content: BlobPart): Promise<Record<string, string>> {
+  const zip = await JSZip.loadAsync(await new Response(content).arrayBuffer());
+  const entries = Object.values(zip.files).filter(file => !file.dir);
+  return Object.fromEntries(await Promise.all(entries.map(async file => [file.name, await file.async('string')])));
+}
+
+describe('exportAnnotations', () => {
+  it('leaves images of unknown size out of COCO and reports them', async () => {
+    const file = await exportAnnotations(IMAGES, 'coco', CATEGORIES, SIZES, 'Test');
+    const coco = JSON.parse(file.content as string);
+
+    expect(file.skipped.map(image => image.id)).toEqual(['b', 'c']);
+    expect(coco.images).toEqual([
+      { id: 1, file_name: 'a.jpg', coco_url: 'https://example.com/a.jpg', width: 200, height: 100 },
+    ]);
+    expect(coco.annotations).toEqual([
+      { id: 1, image_id: 1, category_id: 1, bbox: [0, 0, 200, 100], area: 20000, iscrowd: 0 },
+    ]);
+  });
+
+  it('leaves images of unknown size out of VOC', async () => {
+    const file = await exportAnnotations(IMAGES, 'voc', CATEGORIES, SIZES, 'Test');
+    const files = await zipFiles(file.content);
+
+    expect(Object.keys(files).sort()).toEqual(['Annotations/a.xml', 'labels.txt']);
+    expect(files['Annotations/a.xml']).toContain('<width>200</width>');
+  });
+
+  it('only needs sizes for YOLO images with regions', async () => {
+    const file = await exportAnnotations(IMAGES, 'yolo', CATEGORIES, SIZES, 'Test');
+    const files = await zipFiles(file.content);
+
+    expect(file.skipped.map(image => image.id)).toEqual(['c']);
+    expect(files).toEqual({
+      'classes.txt': 'cat\ndog\n',
+      'labels/a.txt': '0 0.5 0.5 1 1\n',
+      'labels/b.txt': '1 0.5 0.5 1 1\n',
+    });
+  });
+
+  it('fails when no image could be measured', async () => {
+    await expect(exportAnnotations(IMAGES.slice(1, 2), 'coco', CATEGORIES, new Map(), 'Test')).rejects.toThrow(
+      'None of the images could be loaded'
+    );
+  });
+});
@@ -0,0 +1,236 @@
+import JSZip from 'jszip';
+import { ImageData, RegionAnnotation } from '@/components/ImageGallery';
+import { ImageSize } from '@/lib/imageSize';
+import { Category } from './categories';
+import { ExportFile, slugify } from './datasetExport';
+
+// Writes the gallery's labels in the layouts object-detection and
+// classification tooling reads: COCO JSON, YOLO text files and Pascal VOC XML.
+// An image without regions is annotated with one box covering the whole
+// image, carrying its label. Images whose size the format needs but that
+// couldn't be measured are left out and reported, never written as 0x0.
+
+export type AnnotationFormat = 'coco' | 'yolo' | 'voc';
+
+export const ANNOTATION_FORMAT_LABELS: Record<AnnotationFormat, string> = {
+  coco: 'COCO (JSON)',
+  yolo: 'YOLO (ZIP)',
+  voc: 'Pascal VOC (ZIP)',
+};
+
+// Sizes by image ID; images missing here couldn't be measured
+export type ImageSizes = Map<string, ImageSize>;
+
+export interface AnnotationExportFile extends ExportFile {
+  // Images left out because their size, which their boxes need, is unknown
+  skipped: ImageData[];
+}
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'tif', 'tiff'];
+
+// File name stem shared by an image and its annotation file
+export function imageFileStem(image: ImageData): string {
+  return image.id.replace(/[^A-Za-z0-9._-]+/g, '_');
+}
+
+// Image file name, keeping the extension of the URL when it has a known one
+export function imageFileName(image: ImageData): string {
+  let extension = 'jpg';
+  try {
+    const match = new URL(image.url).pathname.match(/\.([a-z0-9]+)$/i);
+    if (match && IMAGE_EXTENSIONS.includes(match[1].toLowerCase())) {
+      extension = match[1].toLowerCase();
+    }
+  } catch (error) {
+    // Not an absolute URL; keep the default extension
+  }
+  return `${imageFileStem(image)}.${extension}`;
+}
+
+// Labels that need a category: image labels and region labels
+export function annotationLabels(images: ImageData[]): string[] {
+  return images.flatMap(image => [image.label, ...(image.regions ?? []).map(region => region.label)]);
+}
+
+// Boxes to write for an image: its regions, or its label over the whole image
+function boxesOf(image: ImageData, size: ImageSize): RegionAnnotation[] {
+  if (image.regions?.length) return image.regions;
+  if (!image.label?.trim()) return [];
+  return [{ label: image.label, x: 0, y: 0, width: size.width, height: size.height }];
+}
+
+// Size of an image, unless it failed to load or reported no pixels
+function knownSize(image: ImageData, sizes: ImageSizes): ImageSize | undefined {
+  const size = sizes.get(image.id);
+  return size && size.width > 0 && size.height > 0 ? size : undefined;
+}
+
+function categoryLookup(categories: Category[]): Map<string, Category> {
+  return new Map(categories.map(category => [category.name, category]));
+}
+
+function toCoco(images: ImageData[], categories: Category[], sizes: ImageSizes, baseName: string): string {
+  const byName = categoryLookup(categories);
+  const annotations: object[] = [];
+
+  const cocoImages = images.map((image, index) => {
+    const size = knownSize(image, sizes);
+    for (const box of boxesOf(image, size)) {
+      const category = byName.get(box.label.trim());
+      if (!category) continue;
+      annotations.push({
+        id: annotations.length + 1,
+        image_id: index + 1,
+        category_id: category.id,
+        bbox: [box.x, box.y, box.width, box.height],
+        area: box.width * box.height,
+        iscrowd: 0,
+      });
+    }
+    return {
+      id: index + 1,
+      file_name: imageFileName(image),
+      coco_url: image.url,
+      width: size.width,
+      height: size.height,
+    };
+  });
+
+  return JSON.stringify({
+    info: { description: baseName, date_created: new Date().toISOString() },
+    licenses: [],
+    categories: categories.map(category => ({ id: category.id, name: category.name, supercategory: '' })),
+    images: cocoImages,
+    annotations,
+  }, null, 2);
+}
+
+// "<class> <x center> <y center> <width> <height>", relative to the image size
+function yoloLine(classIndex: number, box: RegionAnnotation, size: ImageSize): string {
+  const values = [
+    (box.x + box.width / 2) / size.width,
+    (box.y + box.height / 2) / size.height,
+    box.width / size.width,
+    box.height / size.height,
+  ];
+  return [classIndex, ...values.map(value => Number(value.toFixed(6)))].join(' ');
+}
+
+function addYolo(zip: JSZip, images: ImageData[], categories: Category[], sizes: ImageSizes) {
+  // YOLO classes are 0-based line numbers of classes.txt; IDs are contiguous from 1
+  const byName = categoryLookup(categories);
+  zip.file('classes.txt', categories.map(category => category.name).join('\n') + '\n');
+
+  for (const image of images) {
+    const lines: string[] = [];
+    if (image.regions?.length) {
+      const size = knownSize(image, sizes);
+      for (const region of image.regions) {
+        const category = byName.get(region.label.trim());
+        if (category) lines.push(yoloLine(category.id - 1, region, size));
+      }
+    } else {
+      const category = byName.get(image.label?.trim() ?? '');
+      if (category) lines.push(`${category.id - 1} 0.5 0.5 1 1`);
+    }
+    zip.file(`labels/${imageFileStem(image)}.txt`, lines.length > 0 ? lines.join('\n') + '\n' : '');
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// VOC boxes are 1-based, inclusive pixel coordinates
+function vocObject(box: RegionAnnotation): string {
+  const xmin = Math.round(box.x) + 1;
+  const ymin = Math.round(box.y) + 1;
+  return `  <object>
+    <name>${escapeXml(box.label.trim())}</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <bndbox>
+      <xmin>${xmin}</xmin>
+      <ymin>${ymin}</ymin>
+      <xmax>${Math.max(xmin, Math.round(box.x + box.width))}</xmax>
+      <ymax>${Math.max(ymin, Math.round(box.y + box.height))}</ymax>
+    </bndbox>
+  </object>`;
+}
+
+function vocAnnotation(image: ImageData, size: ImageSize, baseName: string): string {
+  return `<annotation>
+  <folder>images</folder>
+  <filename>${escapeXml(imageFileName(image))}</filename>
+  <path>${escapeXml(image.url)}</path>
+  <source>
+    <database>${escapeXml(baseName)}</database>
+  </source>
+  <size>
+    <width>${size.width}</width>
+    <height>${size.height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>0</segmented>
+${boxesOf(image, size).map(vocObject).join('\n')}
+</annotation>
+`;
+}
+
+function addVoc(zip: JSZip, images: ImageData[], categories: Category[], sizes: ImageSizes, baseName: string) {
+  // VOC names classes by label; labels.txt records the stable ID order
+  zip.file('labels.txt', categories.map(category => category.name).join('\n') + '\n');
+  for (const image of images) {
+    const size = knownSize(image, sizes);
+    zip.file(`Annotations/${imageFileStem(image)}.xml`, vocAnnotation(image, size, baseName));
+  }
+}
+
+export async function exportAnnotations(
+  images: ImageData[],
+  format: AnnotationFormat,
+  categories: Category[],
+  sizes: ImageSizes,
+  baseName: string
+): Promise<AnnotationExportFile> {
+  const slug = slugify(baseName);
+  const skipped = new Set(imagesNeedingSize(images, format).filter(image => !knownSize(image, sizes)));
+  const included = images.filter(image => !skipped.has(image));
+  if (included.length === 0) {
+    throw new Error("None of the images could be loaded to read their size. Check their URLs and try again.");
+  }
+
+  if (format === 'coco') {
+    return {
+      filename: `${slug}-coco.json`,
+      content: toCoco(included, categories, sizes, baseName),
+      type: 'application/json',
+      skipped: [...skipped],
+    };
+  }
+
+  const zip = new JSZip();
+  if (format === 'yolo') {
+    addYolo(zip, included, categories, sizes);
+  } else {
+    addVoc(zip, included, categories, sizes, baseName);
+  }
+  return {
+    filename: `${slug}-${format}.zip`,
+    content: await zip.generateAsync({ type: 'blob' }),
+    type: 'application/zip',
+    skipped: [...skipped],
+  };
+}
+
+// Images whose size the export needs: all of them for COCO and VOC, only
+// those with regions for YOLO, whose whole-image boxes are size-independent
+export function imagesNeedingSize(images: ImageData[], format: AnnotationFormat): ImageData[] {
+  return format === 'yolo' ? images.filter(image => image.regions?.length) : images;
+}
@@ -0,0 +1,96 @@
+import { ImageData } from '@/components/ImageGallery';
+import { hashString } from '@/lib/hash';
+import { toStorageError } from '@/lib/storage';
+
+// Who is editing in this browser: a display name and color picked on first
+// launch and kept in localStorage. The name is recorded with every edit so
+// reviewers can see who changed what.
+
+export interface Annotator {
+  name: string;
+  color: string;
+}
+
+// Name and time stamped on an edit; `at` is an ISO timestamp
+export interface EditStamp {
+  by: string;
+  at: string;
+}
+
+const ANNOTATOR_KEY = 'image_gallery_annotator';
+
+export const ANONYMOUS_ANNOTATOR = 'Anonymous';
+
+export const ANNOTATOR_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6',
+  '#3b82f6', '#6366f1', '#a855f7', '#ec4899', '#64748b',
+];
+
+let listeners: Array<() => void> = [];
+let current: Annotator | null | undefined;
+
+function loadAnnotator(): Annotator | null {
+  try {
+    const stored = localStorage.getItem(ANNOTATOR_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed.name === 'string' && parsed.name.trim() ? parsed : null;
+  } catch (error) {
+    console.error('Failed to parse the saved annotator:', error);
+    return null;
+  }
+}
+
+// The annotator of this browser, or null until one is chosen
+export function getAnnotator(): Annotator | null {
+  if (current === undefined) current = loadAnnotator();
+  return current;
+}
+
+export function saveAnnotator(annotator: Annotator) {
+  const saved = { name: annotator.name.trim(), color: annotator.color };
+  try {
+    localStorage.setItem(ANNOTATOR_KEY, JSON.stringify(saved));
+  } catch (error) {
+    throw toStorageError(error);
+  }
+  current = saved;
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeToAnnotator(listener: () => void): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(l => l !== listener);
+  };
+}
+
+export function getAnnotatorName(): string {
+  return getAnnotator()?.name ?? ANONYMOUS_ANNOTATOR;
+}
+
+// Stamp for an edit made now by this browser's annotator
+export function createEditStamp(): EditStamp {
+  return { by: getAnnotatorName(), at: new Date().toISOString() };
+}
+
+// ImageData fields recording an edit's stamp
+export function stampFields(stamp?: EditStamp): Pick<ImageData, 'editedBy' | 'editedAt'> {
+  return stamp ? { editedBy: stamp.by, editedAt: stamp.at } : {};
+}
+
+// Color shown for an editor: the chosen one for this browser's annotator, a
+// stable pick from the palette for names seen in the data
+export function annotatorColor(name: string): string {
+  const annotator = getAnnotator();
+  if (annotator && annotator.name === name) return annotator.color;
+  return ANNOTATOR_COLORS[parseInt(hashString(name), 36) % ANNOTATOR_COLORS.length];
+}
+
+// Other tabs pick up a changed identity
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== ANNOTATOR_KEY) return;
+    current = loadAnnotator();
+    listeners.forEach(listener => listener());
+  });
+}
@@ -0,0 +1,50 @@
+import { ImageData } from '@/components/ImageGallery';
+import { requestToPromise, transactionDone } from '@/lib/idb';
+import { toStorageError } from '@/lib/storage';
+import { IMAGES_STORE, getDatabase } from './database';
+import { MutationField } from './syncQueue';
+
+// Last known remote value of each row, per data source. This is the common
+// ancestor for three-way conflict detection: an edit made from base B
+// conflicts when the remote has meanwhile moved from B to something else.
+//
+// Bases live on the image records in IndexedDB: LocalDataSource.replaceAll
+// stores them with every fetched row, and writes that reach the source
+// update them here, one record at a time.
+
+export type RowBase = Record<MutationField, string>;
+
+// Image records as far as bases are concerned
+interface BaseRecord {
+  base?: RowBase;
+}
+
+export function toBase(image: ImageData): RowBase {
+  return { label: image.label, comments: image.comments || '' };
+}
+
+export async function getBaseValue(sourceId: string, imageId: string, field: MutationField): Promise<string | undefined> {
+  const db = await getDatabase();
+  const record = await requestToPromise<BaseRecord | undefined>(
+    db.transaction(IMAGES_STORE, 'readonly').objectStore(IMAGES_STORE).get([sourceId, imageId])
+  );
+  return record?.base?.[field];
+}
+
+// A write reached the source, so it is the new base for that field. A full
+// quota surfaces as StorageQuotaError.
+export async function recordBaseValue(sourceId: string, imageId: string, field: MutationField, value: string): Promise<void> {
+  try {
+    const db = await getDatabase();
+    const transaction = db.transaction(IMAGES_STORE, 'readwrite');
+    const store = transaction.objectStore(IMAGES_STORE);
+    store.get([sourceId, imageId]).onsuccess = (event) => {
+      const record = (event.target as IDBRequest<BaseRecord | undefined>).result;
+      if (!record) return;
+      store.put({ ...record, base: { label: '', comments: '', ...record.base, [field]: value } });
+    };
+    await transactionDone(transaction);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
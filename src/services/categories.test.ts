@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImageData } from '@/components/ImageGallery';
+import { createMemoryStorage } from '@/test/memoryStorage';
+import { ImageSizes, annotationLabels, exportAnnotations } from './annotationExport';
+import { assignCategoryIds, clearCategories } from './categories';
+
+const SIZES: ImageSizes = new Map([
+  ['a', { width: 100, height: 100 }],
+  ['b', { width: 100, height: 100 }],
+  ['c', { width: 100, height: 100 }],
+]);
+
+// COCO category ID by name, as an export for the connection would write it
+async function exportedCategoryIds(sourceId: string, images: ImageData[]): Promise<Record<string, number>> {
+  const categories = assignCategoryIds(sourceId, annotationLabels(images));
+  const file = await exportAnnotations(images, 'coco', categories, SIZES, 'Test');
+  const coco = JSON.parse(file.content as string);
+  return Object.fromEntries(coco.categories.map((category: { id: number; name: string }) => [category.name, category.id]));
+}
+
+describe('category IDs', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+  });
+
+  it('keeps the IDs of earlier labels when a label is added between exports', async () => {
+    const images: ImageData[] = [
+      { id: 'a', url: 'https://example.com/a.jpg', label: 'cat' },
+      { id: 'b', url: 'https://example.com/b.jpg', label: 'dog' },
+    ];
+    const first = await exportedCategoryIds('sheet-1', images);
+    expect(first).toEqual({ cat: 1, dog: 2 });
+
+    // Sorts before both, but only takes the next free ID
+    const second = await exportedCategoryIds('sheet-1', [
+      ...images,
+      { id: 'c', url: 'https://example.com/c.jpg', label: 'ant' },
+    ]);
+    expect(second).toEqual({ ...first, ant: 3 });
+  });
+
+  it('keeps the ID of a label that is no longer used', () => {
+    assignCategoryIds('sheet-1', ['cat', 'dog']);
+    expect(assignCategoryIds('sheet-1', ['dog', 'bird'])).toEqual([
+      { id: 1, name: 'cat' },
+      { id: 2, name: 'dog' },
+      { id: 3, name: 'bird' },
+    ]);
+  });
+
+  it('numbers each connection on its own, until cleared', () => {
+    assignCategoryIds('sheet-1', ['cat']);
+    expect(assignCategoryIds('sheet-2', ['dog'])).toEqual([{ id: 1, name: 'dog' }]);
+    expect(localStorage.getItem('image_gallery_categories:sheet-1')).not.toBeNull();
+
+    clearCategories('sheet-1');
+    expect(assignCategoryIds('sheet-1', ['dog'])).toEqual([{ id: 1, name: 'dog' }]);
+  });
+});
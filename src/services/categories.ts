@@ -0,0 +1,50 @@
+import { toStorageError } from '@/lib/storage';
+
+// Numeric category IDs for labels, persisted per connection in localStorage.
+// Training code keys on these IDs, so a label keeps its ID across exports,
+// even after other labels are renamed away; new labels get the next ID.
+
+export interface Category {
+  id: number;
+  name: string;
+}
+
+const categoriesKey = (sourceId: string) => `image_gallery_categories:${sourceId}`;
+
+function loadCategories(sourceId: string): Category[] {
+  try {
+    const stored = localStorage.getItem(categoriesKey(sourceId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to parse saved categories:', error);
+    return [];
+  }
+}
+
+// Every category of the connection by ID, with IDs (from 1) assigned to
+// labels seen for the first time, in alphabetical order
+export function assignCategoryIds(sourceId: string, labels: string[]): Category[] {
+  const categories = loadCategories(sourceId);
+  const known = new Set(categories.map(category => category.name));
+  const added = [...new Set(labels.map(label => label.trim()))]
+    .filter(label => label !== '' && !known.has(label))
+    .sort((a, b) => a.localeCompare(b));
+
+  if (added.length > 0) {
+    let nextId = categories.reduce((max, category) => Math.max(max, category.id), 0) + 1;
+    for (const name of added) {
+      categories.push({ id: nextId++, name });
+    }
+    try {
+      localStorage.setItem(categoriesKey(sourceId), JSON.stringify(categories));
+    } catch (error) {
+      throw toStorageError(error);
+    }
+  }
+
+  return [...categories].sort((a, b) => a.id - b.id);
+}
+
+export function clearCategories(sourceId: string) {
+  localStorage.removeItem(categoriesKey(sourceId));
+}
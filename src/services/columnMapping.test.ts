@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { detectColumnMapping, resolveColumnIndexes } from './columnMapping';
+import { importRows } from './rowImport';
+
+describe('detectColumnMapping', () => {
+  it('matches headers by alias, ignoring case, spacing and separators', () => {
+    expect(detectColumnMapping(['Photo_URL', '  CAPTION ', 'Image-ID', 'notes', 'Annotator', 'Last Modified'])).toEqual({
+      url: 'Photo_URL',
+      label: '  CAPTION ',
+      id: 'Image-ID',
+      comments: 'notes',
+      editedBy: 'Annotator',
+      editedAt: 'Last Modified',
+    });
+  });
+
+  it('prefers the stronger alias and uses each column once', () => {
+    // "Link" and "Name" are weaker aliases of url and label, so stay unmapped
+    expect(detectColumnMapping(['Link', 'Image URL', 'Name', 'Label'])).toEqual({
+      url: 'Image URL',
+      label: 'Label',
+    });
+  });
+
+  it('leaves out fields without a matching header', () => {
+    const mapping = detectColumnMapping(['ID', 'Caption', 'Score']);
+    expect(mapping).toEqual({ id: 'ID', label: 'Caption' });
+    expect(mapping).not.toHaveProperty('url');
+  });
+});
+
+describe('resolveColumnIndexes', () => {
+  it('puts columns where their headers are, whatever the order', () => {
+    expect(resolveColumnIndexes(['Label', 'Comments', 'URL', 'ID'])).toEqual({
+      id: 3, url: 2, label: 0, comments: 1, editedBy: -1, editedAt: -1,
+    });
+  });
+
+  it('lets an explicit mapping override detection or unmap a field', () => {
+    expect(resolveColumnIndexes(['ID', 'URL', 'Label', 'Species'], { label: 'Species', id: null })).toMatchObject({
+      id: -1, url: 1, label: 3,
+    });
+  });
+
+  it('falls back to the positional layout when no header matches', () => {
+    expect(resolveColumnIndexes(['a', 'b', 'c'])).toEqual({
+      id: 0, url: 1, label: 2, comments: 3, editedBy: -1, editedAt: -1,
+    });
+  });
+
+  it('reports every row of a sheet without a URL column as missing its URL', () => {
+    const { images, report } = importRows([
+      ['ID', 'Label'],
+      ['a', 'cat'],
+      ['b', 'dog'],
+    ]);
+
+    expect(images).toEqual([]);
+    expect(report.issues.map(issue => [issue.row, issue.kind])).toEqual([[2, 'missing-url'], [3, 'missing-url']]);
+  });
+});
@@ -0,0 +1,99 @@
+// Maps sheet columns to ImageData fields by header name.
+// Sheets don't share one column order, so columns are matched by their header
+// (case-insensitively, with common aliases) instead of by position.
+
+// editedBy / editedAt are optional columns recording who last changed a row
+export type ImageField = 'id' | 'url' | 'label' | 'comments' | 'editedBy' | 'editedAt';
+
+// Sheet header bound to each field. A missing entry is auto-detected, null
+// means the user explicitly left the field unmapped.
+export type ColumnMapping = Partial<Record<ImageField, string | null>>;
+
+export type ColumnIndexes = Record<ImageField, number>;
+
+export const IMAGE_FIELDS: ImageField[] = ['id', 'url', 'label', 'comments', 'editedBy', 'editedAt'];
+
+export const IMAGE_FIELD_LABELS: Record<ImageField, string> = {
+  id: 'ID',
+  url: 'Image URL',
+  label: 'Label',
+  comments: 'Comments',
+  editedBy: 'Last edited by',
+  editedAt: 'Last edited at',
+};
+
+// Known header spellings per field, compared after normalizeHeader
+const COLUMN_ALIASES: Record<ImageField, string[]> = {
+  id: ['id', 'image id', 'key', 'row id', 'uid'],
+  url: ['url', 'image url', 'image', 'image link', 'link', 'src', 'photo', 'photo url'],
+  label: ['label', 'caption', 'title', 'name', 'class', 'category', 'tag'],
+  comments: ['comments', 'comment', 'notes', 'note', 'description', 'remarks'],
+  editedBy: ['last edited by', 'edited by', 'editor', 'annotator', 'labeler', 'labeller'],
+  editedAt: ['last edited at', 'edited at', 'last edited', 'last modified', 'modified at', 'updated at'],
+};
+
+// Positional layout used by sheets without a recognisable header row
+const LEGACY_INDEXES: ColumnIndexes = { id: 0, url: 1, label: 2, comments: 3, editedBy: -1, editedAt: -1 };
+
+export function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Guess a mapping from the header row using the alias table
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const field of IMAGE_FIELDS) {
+    // Earlier aliases are stronger matches, so search alias by alias
+    for (const alias of COLUMN_ALIASES[field]) {
+      const index = normalized.findIndex((header, i) => header === alias && !used.has(i));
+      if (index !== -1) {
+        mapping[field] = headers[index];
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+// Headers of the optional, read-only column holding region boxes as JSON
+const REGIONS_ALIASES = ['regions', 'boxes', 'bounding boxes', 'bboxes', 'annotations'];
+
+// Index of the regions column, or -1 when the sheet has none
+export function regionsColumnIndex(headers: string[]): number {
+  const normalized = headers.map(normalizeHeader);
+  for (const alias of REGIONS_ALIASES) {
+    const index = normalized.indexOf(alias);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+// Resolve the column index of each field; -1 when the field isn't present.
+// An explicit mapping wins over detection; a header row that matches nothing
+// falls back to the legacy [id, url, label, comments] order.
+export function resolveColumnIndexes(headers: string[], mapping: ColumnMapping = {}): ColumnIndexes {
+  const normalized = headers.map(normalizeHeader);
+  const detected = detectColumnMapping(headers);
+
+  const indexes = {} as ColumnIndexes;
+  for (const field of IMAGE_FIELDS) {
+    const header = field in mapping ? mapping[field] : detected[field];
+    indexes[field] = header == null ? -1 : normalized.indexOf(normalizeHeader(header));
+  }
+
+  const nothingMatched = IMAGE_FIELDS.every(field => indexes[field] === -1);
+  if (nothingMatched && Object.keys(mapping).length === 0) {
+    return { ...LEGACY_INDEXES };
+  }
+
+  return indexes;
+}
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Command, CommandHistory, MAX_HISTORY } from './commandHistory';
+
+// A command that appends to a shared log, optionally failing one of its steps
+const step = (log: string[], name: string, fail: { apply?: boolean; revert?: boolean } = {}): Command => ({
+  description: name,
+  async apply() {
+    if (fail.apply) throw new Error(`${name} failed`);
+    log.push(`apply ${name}`);
+  },
+  async revert() {
+    if (fail.revert) throw new Error(`${name} failed`);
+    log.push(`revert ${name}`);
+  },
+});
+
+describe('command history', () => {
+  let history: CommandHistory;
+  let log: string[];
+
+  beforeEach(() => {
+    history = new CommandHistory();
+    log = [];
+  });
+
+  it('resolves execute with the command it applied', async () => {
+    const command = step(log, 'a');
+    await expect(history.execute(command)).resolves.toBe(command);
+    expect(history.latest()).toBe(command);
+    expect(history.getState()).toEqual({ undoDescription: 'a', redoDescription: null });
+  });
+
+  it('does not record a command whose apply fails', async () => {
+    const kept = await history.execute(step(log, 'a'));
+    await expect(history.execute(step(log, 'b', { apply: true }))).rejects.toThrow('b failed');
+
+    expect(history.latest()).toBe(kept);
+    expect(history.getState().undoDescription).toBe('a');
+  });
+
+  it('keeps a command on the undo stack when its revert fails', async () => {
+    const failing = await history.execute(step(log, 'a', { revert: true }));
+    await expect(history.undo()).rejects.toThrow('a failed');
+
+    expect(history.latest()).toBe(failing);
+    expect(history.getState()).toEqual({ undoDescription: 'a', redoDescription: null });
+  });
+
+  it('clears the redo stack when a new command is pushed', async () => {
+    await history.execute(step(log, 'a'));
+    await history.undo();
+    expect(history.getState().redoDescription).toBe('a');
+
+    history.record(step(log, 'b'));
+    expect(history.getState()).toEqual({ undoDescription: 'b', redoDescription: null });
+    await expect(history.redo()).resolves.toBeNull();
+  });
+
+  it('forgets the oldest command past MAX_HISTORY', async () => {
+    for (let i = 0; i <= MAX_HISTORY; i++) {
+      history.record(step(log, `c${i}`));
+    }
+
+    const undone: string[] = [];
+    for (let command = await history.undo(); command; command = await history.undo()) {
+      undone.push(command.description);
+    }
+    expect(undone).toHaveLength(MAX_HISTORY);
+    expect(undone[undone.length - 1]).toBe('c1');
+  });
+
+  it('runs commands one at a time, in the order they were requested', async () => {
+    let release!: () => void;
+    const slow: Command = {
+      description: 'slow',
+      async apply() {
+        log.push('start slow');
+        await new Promise<void>(resolve => { release = resolve; });
+        log.push('end slow');
+      },
+      async revert() {},
+    };
+
+    const first = history.execute(slow);
+    const second = history.execute(step(log, 'fast'));
+    const undone = history.undo();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(log).toEqual(['start slow']);
+
+    release();
+    await Promise.all([first, second, undone]);
+    expect(log).toEqual(['start slow', 'end slow', 'apply fast', 'revert fast']);
+  });
+});
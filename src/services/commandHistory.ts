@@ -0,0 +1,140 @@
+// App-level undo / redo. Every user change to the gallery is a command that
+// knows how to apply and revert itself against the data source, so undoing
+// goes through the same write path as the original edit.
+
+export interface Command {
+  // Shown in toasts, e.g. 'Label of "Ocean Sunset"'
+  description: string;
+  apply(): Promise<void>;
+  revert(): Promise<void>;
+}
+
+export interface HistoryState {
+  undoDescription: string | null;
+  redoDescription: string | null;
+}
+
+// Older commands are forgotten past this depth
+export const MAX_HISTORY = 100;
+
+// Several commands undone and redone as one, e.g. a duplicate merge
+export function groupCommands(description: string, commands: Command[]): Command {
+  return {
+    description,
+    async apply() {
+      for (const command of commands) {
+        await command.apply();
+      }
+    },
+    async revert() {
+      for (const command of [...commands].reverse()) {
+        await command.revert();
+      }
+    },
+  };
+}
+
+export class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private listeners: Array<(state: HistoryState) => void> = [];
+  private state: HistoryState = { undoDescription: null, redoDescription: null };
+  // Commands run one at a time, in the order they were requested
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Apply a command and make it undoable; a command that fails isn't recorded.
+  // Resolves to the command, so an "Undo" toast can be bound to it.
+  execute<C extends Command>(command: C): Promise<C> {
+    return this.enqueue(async () => {
+      await command.apply();
+      this.push(command);
+      return command;
+    });
+  }
+
+  // Make an already applied command undoable
+  record(command: Command) {
+    this.push(command);
+  }
+
+  // Revert the latest command. Resolves to it, or null when there was nothing
+  // to undo; on failure it stays on the undo stack.
+  undo(): Promise<Command | null> {
+    return this.enqueue(async () => {
+      const command = this.undoStack.pop();
+      if (!command) return null;
+      try {
+        await command.revert();
+      } catch (error) {
+        this.undoStack.push(command);
+        throw error;
+      }
+      this.redoStack.push(command);
+      this.notify();
+      return command;
+    });
+  }
+
+  // Re-apply the latest undone command
+  redo(): Promise<Command | null> {
+    return this.enqueue(async () => {
+      const command = this.redoStack.pop();
+      if (!command) return null;
+      try {
+        await command.apply();
+      } catch (error) {
+        this.redoStack.push(command);
+        throw error;
+      }
+      this.undoStack.push(command);
+      this.notify();
+      return command;
+    });
+  }
+
+  // The command undo would revert next
+  latest(): Command | null {
+    return this.undoStack[this.undoStack.length - 1] ?? null;
+  }
+
+  // Forget everything, e.g. when another data source is activated
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  getState(): HistoryState {
+    return this.state;
+  }
+
+  subscribe(listener: (state: HistoryState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private push(command: Command) {
+    this.undoStack.push(command);
+    if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+    this.redoStack = [];
+    this.notify();
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private notify() {
+    this.state = {
+      undoDescription: this.latest()?.description ?? null,
+      redoDescription: this.redoStack[this.redoStack.length - 1]?.description ?? null,
+    };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+export const commandHistory = new CommandHistory();
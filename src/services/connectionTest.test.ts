@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { testSheetConnection } from './connectionTest';
+
+const CSV_URL = 'https://docs.google.com/spreadsheets/d/abc/export?format=csv';
+
+// Answers every request with `body`, as CSV unless other headers are given
+function respondWith(body: string, init: ResponseInit = {}) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, {
+    headers: { 'Content-Type': 'text/csv' },
+    ...init,
+  })));
+}
+
+describe('testSheetConnection', () => {
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the parsed rows of a sheet that loads', async () => {
+    respondWith('ID,Image URL,Label\na,https://example.com/a.jpg,cat\n');
+
+    expect(await testSheetConnection(CSV_URL)).toEqual({
+      ok: true,
+      rows: [['ID', 'Image URL', 'Label'], ['a', 'https://example.com/a.jpg', 'cat']],
+    });
+  });
+
+  it('reports the status of an HTTP error', async () => {
+    respondWith('Server error', { status: 500 });
+
+    const result = await testSheetConnection(CSV_URL);
+    expect(result).toMatchObject({ ok: false, problem: 'http' });
+    expect(result.ok === false && result.message).toMatch(/\(HTTP 500\)$/);
+  });
+
+  it('tells a private sheet and a missing one apart', async () => {
+    respondWith('', { status: 403 });
+    expect(await testSheetConnection(CSV_URL)).toMatchObject({ ok: false, problem: 'unpublished' });
+
+    respondWith('', { status: 404 });
+    expect(await testSheetConnection(CSV_URL)).toMatchObject({ ok: false, problem: 'not-found' });
+  });
+
+  it('reports a sheet with only a header row as empty', async () => {
+    respondWith('ID,Image URL,Label\n\n,,\n');
+    expect(await testSheetConnection(CSV_URL)).toMatchObject({ ok: false, problem: 'empty' });
+  });
+
+  it('reports a sheet without a recognisable URL column, unless one is mapped', async () => {
+    respondWith('ID,Picture,Label\na,https://example.com/a.jpg,cat\n');
+    expect(await testSheetConnection(CSV_URL)).toMatchObject({ ok: false, problem: 'no-url-column' });
+    expect(await testSheetConnection(CSV_URL, { url: 'Picture' })).toMatchObject({ ok: true });
+  });
+
+  it('reports a web page served instead of CSV', async () => {
+    respondWith('<!DOCTYPE html><html><title>Sheet</title></html>', { headers: { 'Content-Type': 'text/html' } });
+    expect(await testSheetConnection(CSV_URL)).toMatchObject({ ok: false, problem: 'html' });
+  });
+
+  it('blames CORS for a failed request while online', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    expect(await testSheetConnection(CSV_URL)).toMatchObject({ ok: false, problem: 'cors' });
+
+    vi.stubGlobal('navigator', { onLine: false });
+    expect(await testSheetConnection(CSV_URL)).toMatchObject({ ok: false, problem: 'offline' });
+  });
+});
@@ -0,0 +1,88 @@
+import { CSVParseError, isBlankRow, parseCSV } from '@/lib/csv';
+import { ColumnMapping, resolveColumnIndexes } from './columnMapping';
+
+// Diagnoses whether a sheet URL can actually be loaded, telling the common
+// failure modes apart instead of quietly falling back to local data.
+
+export type ConnectionProblem =
+  | 'unpublished'
+  | 'not-found'
+  | 'cors'
+  | 'offline'
+  | 'html'
+  | 'empty'
+  | 'no-url-column'
+  | 'malformed'
+  | 'http';
+
+export type ConnectionTestResult =
+  | { ok: true; rows: string[][] }
+  | { ok: false; problem: ConnectionProblem; message: string };
+
+const PROBLEM_MESSAGES: Record<ConnectionProblem, string> = {
+  'unpublished': 'The sheet is private. Publish it to the web (File → Share → Publish to web) or share it with "Anyone with the link".',
+  'not-found': 'No sheet was found at this link (HTTP 404). Check the link and the selected tab.',
+  'cors': 'The browser blocked the request (CORS). This usually means the sheet isn\'t published or the link redirects to a sign-in page.',
+  'offline': 'You appear to be offline.',
+  'html': 'The link returned a web page instead of CSV. Use the sheet\'s edit link or a published CSV link.',
+  'empty': 'The sheet is empty or only has a header row.',
+  'no-url-column': 'No column of image URLs was found. Name its header "URL" or "Image URL", or pick it under Map Columns.',
+  'malformed': 'The sheet could not be read as CSV.',
+  'http': 'The sheet could not be loaded.',
+};
+
+function failure(problem: ConnectionProblem, detail?: string): ConnectionTestResult {
+  const message = detail ? `${PROBLEM_MESSAGES[problem]} ${detail}` : PROBLEM_MESSAGES[problem];
+  return { ok: false, problem, message };
+}
+
+// Google serves its sign-in page to anonymous requests for private sheets
+function looksLikeSignIn(url: string, body: string): boolean {
+  return /accounts\.google\.com|ServiceLogin/i.test(url) || /accounts\.google\.com\/ServiceLogin|<title>[^<]*Sign in/i.test(body);
+}
+
+// `columnMapping` is the mapping chosen so far, if any; without one the
+// image URL column has to be recognisable by its header
+export async function testSheetConnection(csvUrl: string, columnMapping?: ColumnMapping): Promise<ConnectionTestResult> {
+  let response: Response;
+  try {
+    response = await fetch(csvUrl);
+  } catch (error) {
+    // fetch only rejects for network failures, and CORS errors look the same
+    return failure(navigator.onLine ? 'cors' : 'offline');
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return failure('unpublished');
+  }
+  if (response.status === 404) {
+    return failure('not-found');
+  }
+  if (!response.ok) {
+    return failure('http', `(HTTP ${response.status})`);
+  }
+
+  const body = await response.text();
+  const contentType = response.headers.get('content-type') || '';
+  const isHtml = contentType.includes('text/html') || /^\s*<(!doctype|html)/i.test(body);
+
+  if (isHtml) {
+    return failure(looksLikeSignIn(response.url, body) ? 'unpublished' : 'html');
+  }
+
+  let rows: string[][];
+  try {
+    rows = parseCSV(body);
+  } catch (error) {
+    return failure('malformed', error instanceof CSVParseError ? error.message : undefined);
+  }
+
+  if (rows.filter(row => !isBlankRow(row)).length < 2) {
+    return failure('empty');
+  }
+  if (resolveColumnIndexes(rows[0], columnMapping).url === -1) {
+    return failure('no-url-column');
+  }
+
+  return { ok: true, rows };
+}
@@ -0,0 +1,113 @@
+import { DataSourceConfig } from './dataSources';
+import { toStorageError } from '@/lib/storage';
+
+// Saved, named data-source connections, persisted in localStorage so the
+// gallery comes back to the same source after a reload.
+
+export interface PollingSettings {
+  enabled: boolean;
+  intervalSeconds: number;
+}
+
+export interface Connection {
+  id: string;
+  name: string;
+  config: DataSourceConfig;
+  polling: PollingSettings;
+  createdAt: number;
+}
+
+const CONNECTIONS_KEY = 'image_gallery_connections';
+const ACTIVE_CONNECTION_KEY = 'image_gallery_active_connection';
+
+export const DEFAULT_POLLING: PollingSettings = { enabled: false, intervalSeconds: 60 };
+
+// Shortest refresh interval, to stay clear of the sheet's rate limits
+export const MIN_POLL_INTERVAL = 15;
+
+// Seconds from what was typed into an interval field
+export function parsePollInterval(text: string): number {
+  const seconds = Math.round(Number(text));
+  return Number.isFinite(seconds) && seconds > 0 ? Math.max(MIN_POLL_INTERVAL, seconds) : DEFAULT_POLLING.intervalSeconds;
+}
+
+// Built in and always available; keeps the original unnamespaced cache
+export const DEMO_CONNECTION: Connection = {
+  id: 'demo',
+  name: 'Demo data',
+  config: { kind: 'demo' },
+  polling: DEFAULT_POLLING,
+  createdAt: 0,
+};
+
+function loadSaved(): Connection[] {
+  try {
+    const stored = localStorage.getItem(CONNECTIONS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to parse saved connections:', error);
+    return [];
+  }
+}
+
+function storeSaved(connections: Connection[]) {
+  try {
+    localStorage.setItem(CONNECTIONS_KEY, JSON.stringify(connections));
+  } catch (error) {
+    throw toStorageError(error);
+  }
+}
+
+// All connections, demo first
+export function listConnections(): Connection[] {
+  return [DEMO_CONNECTION, ...loadSaved()];
+}
+
+export function getConnection(id: string): Connection | undefined {
+  return listConnections().find(connection => connection.id === id);
+}
+
+// Create a connection, or update the one with the same id
+export function saveConnection(
+  connection: Omit<Connection, 'id' | 'createdAt'> & Partial<Pick<Connection, 'id' | 'createdAt'>>
+): Connection {
+  const saved = loadSaved();
+  const complete: Connection = {
+    ...connection,
+    id: connection.id ?? crypto.randomUUID(),
+    createdAt: connection.createdAt ?? Date.now(),
+  };
+
+  const index = saved.findIndex(c => c.id === complete.id);
+  if (index === -1) {
+    saved.push(complete);
+  } else {
+    saved[index] = complete;
+  }
+  storeSaved(saved);
+  return complete;
+}
+
+export function removeConnection(id: string) {
+  storeSaved(loadSaved().filter(connection => connection.id !== id));
+  if (getActiveConnectionId() === id) {
+    localStorage.removeItem(ACTIVE_CONNECTION_KEY);
+  }
+}
+
+export function getActiveConnectionId(): string {
+  const id = localStorage.getItem(ACTIVE_CONNECTION_KEY);
+  return id && getConnection(id) ? id : DEMO_CONNECTION.id;
+}
+
+export function storeActiveConnectionId(id: string) {
+  localStorage.setItem(ACTIVE_CONNECTION_KEY, id);
+}
+
+// localStorage key that held the cached rows of a connection before they
+// moved to IndexedDB; read once to import them
+export function cacheKeyFor(connectionId: string): string {
+  return connectionId === DEMO_CONNECTION.id
+    ? 'image_gallery_data'
+    : `image_gallery_data:${connectionId}`;
+}
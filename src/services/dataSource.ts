@@ -0,0 +1,57 @@
+import { ImageData } from '@/components/ImageGallery';
+import { ImportReport } from './rowImport';
+import { EditStamp } from './annotator';
+
+// What a backend can do; the gallery hides actions a source doesn't support
+export interface DataSourceCapabilities {
+  readOnly: boolean;
+  supportsComments: boolean;
+  supportsAdd: boolean;
+  supportsDelete: boolean;
+}
+
+// Where the images on screen came from. 'cached' and 'error' carry the
+// reason the source itself couldn't be read, 'cached' also when its copy was
+// last fetched; 'local' is data imported into this browser.
+export type SourceStatus =
+  // storageError: the read succeeded but its offline copy couldn't be saved
+  | { state: 'live'; fetchedAt: number; storageError?: string }
+  | { state: 'cached'; fetchedAt: number | null; error: string }
+  | { state: 'demo' }
+  | { state: 'local' }
+  | { state: 'error'; error: string };
+
+export interface FetchResult {
+  images: ImageData[];
+  status: SourceStatus;
+  // The source reported the same content as its previous fetch, so callers
+  // can keep what they already show; `images` is still the full set
+  unchanged?: boolean;
+}
+
+// Common interface for every backend the gallery can be pointed at
+export interface DataSource {
+  // Stable identity of this backend instance, used to key queued edits
+  readonly id: string;
+  readonly kind: DataSourceKind;
+  readonly name: string;
+  readonly capabilities: DataSourceCapabilities;
+
+  fetchImages(): Promise<FetchResult>;
+  // Writes carry who made the edit and when, for sources that record it
+  updateImageLabel(id: string, newLabel: string, stamp?: EditStamp): Promise<void>;
+  updateImageComments(id: string, newComments: string, stamp?: EditStamp): Promise<void>;
+  addImage(url: string, label: string, stamp?: EditStamp): Promise<ImageData>;
+  deleteImage(id: string): Promise<void>;
+  // Current remote state of one image, used to detect conflicting edits
+  // before overwriting them. Omitted by sources that only live locally.
+  getImage?(id: string): Promise<ImageData | null>;
+  // Ask the user for the access writes need, e.g. a Google sign-in. Only
+  // called from a click or key handler, since it may open a popup.
+  signIn?(): Promise<void>;
+  // Validation report of the most recent successful fetch, for sources that
+  // import rows from tabular data
+  getImportReport?(): ImportReport | null;
+}
+
+export type DataSourceKind = 'demo' | 'google-sheets' | 'local-file';
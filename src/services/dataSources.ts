@@ -0,0 +1,130 @@
+import { DataSource } from './dataSource';
+import { GoogleSheetsConfig, GoogleSheetsService } from './googleSheets';
+import { LocalDataSource } from './localStore';
+import { LocalFileConfig } from './fileImport';
+import { clearCategories } from './categories';
+import { clearRevisions } from './revisions';
+import { syncQueue } from './syncQueue';
+import { clearTaxonomy } from './taxonomy';
+import { discardQuarantined, listQuarantined } from './storageSchema';
+import {
+  Connection,
+  DEMO_CONNECTION,
+  cacheKeyFor,
+  getActiveConnectionId,
+  getConnection,
+  removeConnection,
+  saveConnection,
+  storeActiveConnectionId,
+} from './connections';
+
+// Which backend the gallery talks to, plus its settings
+export type DataSourceConfig =
+  | { kind: 'demo' }
+  | ({ kind: 'google-sheets' } & GoogleSheetsConfig)
+  | ({ kind: 'local-file' } & LocalFileConfig);
+
+const listeners: Array<(source: DataSource) => void> = [];
+
+let activeConnection: Connection = getConnection(getActiveConnectionId()) ?? DEMO_CONNECTION;
+let activeSource: DataSource = createDataSource(activeConnection);
+
+// Build the adapter for a connection; each gets its own cache namespace
+export function createDataSource(connection: Connection): DataSource {
+  const { config } = connection;
+  const cacheKey = cacheKeyFor(connection.id);
+
+  switch (config.kind) {
+    case 'google-sheets':
+      return new GoogleSheetsService(config, connection.id, cacheKey);
+    case 'local-file':
+      return new LocalDataSource(connection.id, { seed: [], kind: 'local-file', name: config.fileName });
+    case 'demo':
+    default:
+      return new LocalDataSource(connection.id, { legacyKey: cacheKey });
+  }
+}
+
+export function getActiveDataSource(): DataSource {
+  return activeSource;
+}
+
+export function getActiveConnection(): Connection {
+  return activeConnection;
+}
+
+// Point the gallery at a saved connection
+export function activateConnection(id: string) {
+  activeConnection = getConnection(id) ?? DEMO_CONNECTION;
+  activeSource = createDataSource(activeConnection);
+  storeActiveConnectionId(activeConnection.id);
+  listeners.forEach(listener => listener(activeSource));
+}
+
+// Store changed settings of a saved connection. The active one is rebuilt
+// with them; its cached rows, queued edits and history stay.
+export function updateConnection(connection: Connection) {
+  if (connection.id === DEMO_CONNECTION.id) return;
+
+  saveConnection(connection);
+  if (activeConnection.id === connection.id) {
+    activateConnection(connection.id);
+  }
+}
+
+// A failure to clear stored rows shouldn't block forgetting a connection.
+// The conflict bases live on the image records and go with them.
+async function clearCache(id: string) {
+  try {
+    await new LocalDataSource(id, { legacyKey: cacheKeyFor(id) }).clear();
+  } catch (error) {
+    console.error(`Failed to clear stored images of "${id}":`, error);
+  }
+}
+
+// Forget a connection, its cached rows, unsent edits and edit history
+export async function deleteConnection(id: string) {
+  if (id === DEMO_CONNECTION.id) return;
+
+  await clearCache(id);
+  try {
+    await syncQueue.clearSource(id);
+  } catch (error) {
+    console.error(`Failed to clear the queued edits of "${id}":`, error);
+  }
+  try {
+    await clearRevisions(id);
+  } catch (error) {
+    console.error(`Failed to clear the edit history of "${id}":`, error);
+  }
+  try {
+    for (const entry of await listQuarantined(id, cacheKeyFor(id))) {
+      await discardQuarantined(entry);
+    }
+  } catch (error) {
+    console.error(`Failed to discard the quarantined data of "${id}":`, error);
+  }
+  clearCategories(id);
+  clearTaxonomy(id);
+  removeConnection(id);
+  if (activeConnection.id === id) {
+    activateConnection(DEMO_CONNECTION.id);
+  }
+}
+
+export function subscribeToDataSource(listener: (source: DataSource) => void): () => void {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) {
+      listeners.splice(index, 1);
+    }
+  };
+}
+
+// Switch back to the demo store with fresh demo data. The demo's edit
+// history is kept.
+export async function resetToDemo() {
+  await clearCache(DEMO_CONNECTION.id);
+  activateConnection(DEMO_CONNECTION.id);
+}
@@ -0,0 +1,51 @@
+import { openDatabase } from '@/lib/idb';
+
+// The app's IndexedDB database. Each schema version adds its stores in
+// upgrade(); bump DB_VERSION and add a case when a new store is needed.
+const DB_NAME = 'label-pix-sync';
+const DB_VERSION = 1;
+
+export const MUTATIONS_STORE = 'mutations';
+// One record per image, keyed by [sourceId, id]
+export const IMAGES_STORE = 'images';
+// One record per data source: schema version, save time and ordering
+export const IMAGE_SETS_STORE = 'imageSets';
+// Append-only edit log, auto-numbered; indexed by [sourceId, imageId]
+export const REVISIONS_STORE = 'revisions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const mutations = db.createObjectStore(MUTATIONS_STORE, { keyPath: 'key' });
+    mutations.createIndex('sourceId', 'sourceId');
+
+    const images = db.createObjectStore(IMAGES_STORE, { keyPath: ['sourceId', 'id'] });
+    images.createIndex('sourceId', 'sourceId');
+    images.createIndex('label', ['sourceId', 'label']);
+    images.createIndex('updatedAt', ['sourceId', 'updatedAt']);
+    images.createIndex('syncState', ['sourceId', 'syncState']);
+    db.createObjectStore(IMAGE_SETS_STORE, { keyPath: 'sourceId' });
+
+    const revisions = db.createObjectStore(REVISIONS_STORE, { keyPath: 'seq', autoIncrement: true });
+    revisions.createIndex('sourceId', 'sourceId');
+    revisions.createIndex('image', ['sourceId', 'imageId']);
+  }
+}
+
+export function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, upgrade).then((db) => {
+      // Let a newer version in another tab take over
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      return db;
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
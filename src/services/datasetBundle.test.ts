@@ -0,0 +1,92 @@
+import JSZip from 'jszip';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ImageData } from '@/components/ImageGallery';
+import { parseCSV } from '@/lib/csv';
+import { buildDatasetBundle } from './datasetBundle';
+
+const IMAGES: ImageData[] = [
+  { id: 'a', url: 'https://example.com/a', label: 'cat' },
+  { id: 'b', url: 'https://example.com/missing', label: 'dog', comments: 'gone' },
+  { id: 'c', url: 'https://example.com/c', label: 'cat' },
+];
+
+// Serves a small PNG for every URL except .../missing
+function stubFetch() {
+  const fetchMock = vi.fn(async (url: string) => url.endsWith('/missing')
+    ? new Response('', { status: 404, statusText: 'Not Found' })
+    : new Response(new Blob([url], { type: 'image/png' })));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+async function unzip(content: BlobPart): Promise<JSZip> {
+  return JSZip.loadAsync(await (content as Blob).arrayBuffer());
+}
+
+describe('buildDatasetBundle', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('zips the images that could be fetched and reports the one that failed', async () => {
+    stubFetch();
+    const progress: number[] = [];
+
+    const { file, failures } = await buildDatasetBundle(
+      IMAGES,
+      { manifest: 'csv', layout: 'by-label' },
+      'My Set',
+      (done) => progress.push(done)
+    );
+
+    expect(file.filename).toBe('my-set-dataset.zip');
+    expect(failures).toEqual([{ image: IMAGES[1], reason: 'HTTP 404 Not Found' }]);
+    expect(progress).toEqual([1, 2, 3]);
+
+    const zip = await unzip(file.content);
+    const paths = Object.keys(zip.files).filter(path => !zip.files[path].dir).sort();
+    expect(paths).toEqual(['images/cat/a.png', 'images/cat/c.png', 'labels.csv']);
+    expect(await zip.file('images/cat/c.png')!.async('text')).toBe('https://example.com/c');
+
+    const rows = parseCSV(await zip.file('labels.csv')!.async('text'));
+    expect(rows).toEqual([
+      ['ID', 'File', 'Image URL', 'Label', 'Comments'],
+      ['a', 'images/cat/a.png', 'https://example.com/a', 'cat', ''],
+      ['b', '', 'https://example.com/missing', 'dog', 'gone'],
+      ['c', 'images/cat/c.png', 'https://example.com/c', 'cat', ''],
+    ]);
+  });
+
+  it('lists failed images with a null file in a JSON manifest', async () => {
+    stubFetch();
+
+    const { file } = await buildDatasetBundle(IMAGES, { manifest: 'json', layout: 'flat' }, 'set');
+
+    const zip = await unzip(file.content);
+    const manifest = JSON.parse(await zip.file('manifest.json')!.async('text'));
+    expect(manifest.map((entry: { file: string | null }) => entry.file)).toEqual(['images/a.png', null, 'images/c.png']);
+  });
+
+  it('rejects when aborted before the images are fetched', async () => {
+    const fetchMock = stubFetch();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(buildDatasetBundle(IMAGES, { manifest: 'csv', layout: 'flat' }, 'set', undefined, controller.signal))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects when aborted part way through', async () => {
+    stubFetch();
+    const controller = new AbortController();
+
+    await expect(buildDatasetBundle(
+      IMAGES,
+      { manifest: 'csv', layout: 'flat' },
+      'set',
+      (done) => { if (done === 1) controller.abort(); },
+      controller.signal
+    )).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,154 @@
+import JSZip from 'jszip';
+import { ImageData } from '@/components/ImageGallery';
+import { formatCSV } from '@/lib/csv';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { imageFileName, imageFileStem } from './annotationExport';
+import { IMAGE_FIELD_LABELS } from './columnMapping';
+import { ExportFile, slugify } from './datasetExport';
+
+// Packages image files with their labels into one ZIP. Images are fetched by
+// the browser, so a host has to allow cross-origin reads (CORS); images that
+// can't be fetched are reported and left out instead of failing the bundle.
+
+export type ManifestFormat = 'csv' | 'json';
+
+// 'flat' keeps every image in images/; 'by-label' makes one folder per label
+// (the ImageNet layout most classification loaders accept)
+export type BundleLayout = 'flat' | 'by-label';
+
+export interface BundleOptions {
+  manifest: ManifestFormat;
+  layout: BundleLayout;
+}
+
+export interface BundleFailure {
+  image: ImageData;
+  reason: string;
+}
+
+export interface BundleResult {
+  file: ExportFile;
+  failures: BundleFailure[];
+}
+
+// Images fetched at once
+const FETCH_CONCURRENCY = 4;
+
+// Folder for images without a label in the by-label layout
+const UNLABELED_FOLDER = '_unlabeled';
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg',
+  'image/tiff': 'tiff',
+};
+
+// Download an image as a Blob; fails on HTTP errors, blocked cross-origin
+// reads and responses that aren't images
+export async function fetchImageBlob(url: string, signal?: AbortSignal): Promise<Blob> {
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: 'cors', signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error('Network error or the host does not allow downloads from this page');
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  }
+  const blob = await response.blob();
+  if (blob.type && !blob.type.startsWith('image/')) {
+    throw new Error(`Not an image (${blob.type})`);
+  }
+  return blob;
+}
+
+// File name for a downloaded image, preferring the extension of its content type
+export function downloadedFileName(image: ImageData, blob: Blob): string {
+  const extension = EXTENSIONS_BY_TYPE[blob.type.split(';')[0]];
+  return extension ? `${imageFileStem(image)}.${extension}` : imageFileName(image);
+}
+
+// "Cats / dogs" -> "Cats _ dogs"; folder names must be valid on every OS
+function labelFolder(label: string): string {
+  const folder = label.trim().replace(/[\\/:*?"<>|]+/g, '_').replace(/^\.+$/, '_');
+  return folder || UNLABELED_FOLDER;
+}
+
+function imagePath(image: ImageData, fileName: string, layout: BundleLayout): string {
+  return layout === 'by-label'
+    ? `images/${labelFolder(image.label ?? '')}/${fileName}`
+    : `images/${fileName}`;
+}
+
+// Manifest rows cover every image; `file` is empty for the ones that failed
+function manifestFile(images: ImageData[], paths: (string | null)[], format: ManifestFormat): [string, string] {
+  if (format === 'json') {
+    const entries = images.map((image, index) => ({
+      id: image.id,
+      file: paths[index] ?? null,
+      url: image.url,
+      label: image.label ?? '',
+      comments: image.comments ?? '',
+      ...(image.regions?.length ? { regions: image.regions } : {}),
+    }));
+    return ['manifest.json', JSON.stringify(entries, null, 2)];
+  }
+
+  // Headers the importer recognises, so labels.csv can be imported again
+  return ['labels.csv', formatCSV([
+    [IMAGE_FIELD_LABELS.id, 'File', IMAGE_FIELD_LABELS.url, IMAGE_FIELD_LABELS.label, IMAGE_FIELD_LABELS.comments],
+    ...images.map((image, index) => [image.id, paths[index] ?? '', image.url, image.label ?? '', image.comments ?? '']),
+  ])];
+}
+
+export async function buildDatasetBundle(
+  images: ImageData[],
+  options: BundleOptions,
+  baseName: string,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<BundleResult> {
+  const zip = new JSZip();
+  const failures: BundleFailure[] = [];
+
+  const results = await mapWithConcurrency(
+    images,
+    FETCH_CONCURRENCY,
+    async image => {
+      signal?.throwIfAborted();
+      const blob = await fetchImageBlob(image.url, signal);
+      const path = imagePath(image, downloadedFileName(image, blob), options.layout);
+      zip.file(path, blob);
+      return path;
+    },
+    onProgress
+  );
+  signal?.throwIfAborted();
+
+  const paths = results.map((result, index) => {
+    if (result.status === 'fulfilled') return result.value;
+    failures.push({
+      image: images[index],
+      reason: result.reason instanceof Error ? result.reason.message : String(result.reason),
+    });
+    return null;
+  });
+
+  const [manifestName, manifestContent] = manifestFile(images, paths, options.manifest);
+  zip.file(manifestName, manifestContent);
+
+  return {
+    file: {
+      filename: `${slugify(baseName)}-dataset.zip`,
+      content: await zip.generateAsync({ type: 'blob' }),
+      type: 'application/zip',
+    },
+    failures,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ImageData } from '@/components/ImageGallery';
+import { parseCSV } from '@/lib/csv';
+import { IMAGE_FIELDS } from './columnMapping';
+import { exportImages } from './datasetExport';
+import { importRows } from './rowImport';
+
+const IMAGES: ImageData[] = [
+  {
+    id: 'a',
+    url: 'https://example.com/a.jpg?w=800&h=600',
+    label: 'cat, tabby',
+    comments: 'She said "meow"\nthen left',
+    editedBy: 'Sam',
+    editedAt: '2024-05-01T10:00:00.000Z',
+  },
+  { id: 'b', url: 'https://example.com/b.jpg', label: '"dog"' },
+  { id: 'c', url: 'https://example.com/c.jpg', label: 'bird', comments: 'line 1\r\nline 2, with a comma' },
+];
+
+describe('exportImages', () => {
+  it('writes a CSV that imports back to the same images', () => {
+    const file = exportImages(IMAGES, 'csv', IMAGE_FIELDS, 'Wildlife labels');
+    expect(file.filename).toBe('wildlife-labels.csv');
+
+    const { images, report } = importRows(parseCSV(file.content as string));
+    expect(report.skippedRows).toBe(0);
+    expect(images).toEqual(IMAGES);
+  });
+
+  it('writes only the chosen CSV columns, in the usual order', () => {
+    const file = exportImages(IMAGES, 'csv', ['label', 'id'], 'set');
+    const rows = parseCSV(file.content as string);
+    expect(rows[0]).toEqual(['ID', 'Label']);
+    expect(rows[1]).toEqual(['a', 'cat, tabby']);
+  });
+
+  it('writes the chosen fields in the usual order to JSON', () => {
+    const file = exportImages(IMAGES, 'json', ['comments', 'url', 'id'], 'set');
+    expect(file.type).toBe('application/json');
+
+    const records = JSON.parse(file.content as string);
+    expect(records).toHaveLength(3);
+    expect(Object.keys(records[0])).toEqual(['id', 'url', 'comments']);
+    expect(records[0].comments).toBe(IMAGES[0].comments);
+    expect(records[1]).toEqual({ id: 'b', url: 'https://example.com/b.jpg', comments: '' });
+  });
+
+  it('writes one record per line to JSON Lines', () => {
+    const file = exportImages(IMAGES, 'jsonl', ['label', 'id'], 'set');
+    expect(file.filename).toBe('set.jsonl');
+
+    const lines = (file.content as string).split('\n');
+    expect(lines.pop()).toBe('');
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      { id: 'a', label: 'cat, tabby' },
+      { id: 'b', label: '"dog"' },
+      { id: 'c', label: 'bird' },
+    ]);
+    expect(Object.keys(JSON.parse(lines[0]))).toEqual(['id', 'label']);
+  });
+});
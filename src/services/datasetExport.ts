@@ -0,0 +1,63 @@
+import { ImageData } from '@/components/ImageGallery';
+import { formatCSV } from '@/lib/csv';
+import { IMAGE_FIELDS, IMAGE_FIELD_LABELS, ImageField } from './columnMapping';
+
+// Serializes a set of images for use outside the gallery. CSV headers are the
+// field names the importer recognises, so an exported CSV imports back as-is.
+
+export type ExportFormat = 'csv' | 'json' | 'jsonl';
+
+export interface ExportFile {
+  filename: string;
+  content: BlobPart;
+  type: string;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  jsonl: 'JSON Lines',
+};
+
+// The given fields of an image; missing values are ''
+function pick(image: ImageData, fields: ImageField[]): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const field of fields) {
+    record[field] = image[field] ?? '';
+  }
+  return record;
+}
+
+// "Wildlife labels" -> "wildlife-labels"
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'dataset';
+}
+
+export function exportImages(images: ImageData[], format: ExportFormat, fields: ImageField[], baseName: string): ExportFile {
+  const ordered = IMAGE_FIELDS.filter(field => fields.includes(field));
+  const filename = `${slugify(baseName)}.${format}`;
+
+  switch (format) {
+    case 'csv':
+      return {
+        filename,
+        content: formatCSV([
+          ordered.map(field => IMAGE_FIELD_LABELS[field]),
+          ...images.map(image => ordered.map(field => image[field] ?? '')),
+        ]),
+        type: 'text/csv;charset=utf-8',
+      };
+    case 'json':
+      return {
+        filename,
+        content: JSON.stringify(images.map(image => pick(image, ordered)), null, 2),
+        type: 'application/json',
+      };
+    case 'jsonl':
+      return {
+        filename,
+        content: images.map(image => JSON.stringify(pick(image, ordered))).join('\n') + '\n',
+        type: 'application/x-ndjson',
+      };
+  }
+}
@@ -0,0 +1,61 @@
+import { parseCSV } from '@/lib/csv';
+import { readXlsxRows } from '@/lib/xlsx';
+import { ColumnMapping } from './columnMapping';
+import { Connection, DEFAULT_POLLING, removeConnection, saveConnection } from './connections';
+import { LocalDataSource } from './localStore';
+import { ImportReport, importRows } from './rowImport';
+
+// Imports a spreadsheet file from the user's computer as a local data source.
+// Rows go through the same column mapping and validation as a sheet, and the
+// images are stored in this browser only; nothing is uploaded.
+
+export interface LocalFileConfig {
+  fileName: string;
+  importedAt: number;
+}
+
+// For the file input's accept attribute
+export const SUPPORTED_FILE_TYPES = '.csv,.tsv,.xlsx,text/csv,text/tab-separated-values';
+
+// Rows of a .csv, .tsv or .xlsx file, header row first
+export async function readTableFile(file: File): Promise<string[][]> {
+  const extension = file.name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  switch (extension) {
+    case 'csv':
+      return parseCSV(await file.text());
+    case 'tsv':
+    case 'tab':
+      return parseCSV(await file.text(), '\t');
+    case 'xlsx':
+      return readXlsxRows(await file.arrayBuffer());
+    default:
+      throw new Error(`Unsupported file type "${file.name}". Use a .csv, .tsv or .xlsx file.`);
+  }
+}
+
+// Save the rows as a new local-file connection. The caller activates it.
+export async function importFileAsConnection(
+  name: string,
+  fileName: string,
+  rows: string[][],
+  columnMapping?: ColumnMapping
+): Promise<{ connection: Connection; report: ImportReport }> {
+  const { images, report } = importRows(rows, columnMapping);
+  if (images.length === 0) {
+    throw new Error('No rows with a valid image URL were found in the file');
+  }
+
+  const connection = saveConnection({
+    name,
+    config: { kind: 'local-file', fileName, importedAt: Date.now() },
+    polling: DEFAULT_POLLING,
+  });
+
+  try {
+    await new LocalDataSource(connection.id, { seed: [], kind: 'local-file', name: fileName }).replaceAll(images);
+  } catch (error) {
+    removeConnection(connection.id);
+    throw error;
+  }
+  return { connection, report };
+}
@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GoogleSignInRequiredError, getGoogleAccessToken } from './googleAuth';
+
+describe('getGoogleAccessToken', () => {
+  let initTokenClient: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.stubEnv('VITE_GOOGLE_ACCESS_TOKEN', '');
+    vi.stubEnv('VITE_GOOGLE_CLIENT_ID', 'client-id');
+    // Signs in right away with a token that lasts an hour
+    initTokenClient = vi.fn(({ callback }) => ({
+      requestAccessToken: () => callback({ access_token: 'token-1', expires_in: 3600 }),
+    }));
+    vi.stubGlobal('window', { google: { accounts: { oauth2: { initTokenClient } } } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  // Runs first, while no token is cached
+  it('does not open the sign-in popup unless the call is interactive', async () => {
+    await expect(getGoogleAccessToken()).rejects.toBeInstanceOf(GoogleSignInRequiredError);
+    await expect(getGoogleAccessToken({ refresh: true })).rejects.toBeInstanceOf(GoogleSignInRequiredError);
+    expect(initTokenClient).not.toHaveBeenCalled();
+  });
+
+  it('signs in when interactive, then reuses the token without prompting', async () => {
+    expect(await getGoogleAccessToken({ interactive: true })).toBe('token-1');
+    expect(initTokenClient).toHaveBeenCalledTimes(1);
+
+    expect(await getGoogleAccessToken()).toBe('token-1');
+    expect(initTokenClient).toHaveBeenCalledTimes(1);
+  });
+});
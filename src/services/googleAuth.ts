@@ -0,0 +1,116 @@
+// OAuth access tokens for the Sheets API via Google Identity Services.
+// Reading a published sheet needs no auth; writing back requires the
+// spreadsheets scope on behalf of the signed-in user.
+
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+interface TokenClient {
+  requestAccessToken: (overrides?: { prompt?: string }) => void;
+}
+
+interface GoogleIdentity {
+  accounts: {
+    oauth2: {
+      initTokenClient: (config: {
+        client_id: string;
+        scope: string;
+        callback: (response: TokenResponse) => void;
+        error_callback?: (error: { type: string; message?: string }) => void;
+      }) => TokenClient;
+    };
+  };
+}
+
+declare global {
+  interface Window {
+    google?: GoogleIdentity;
+  }
+}
+
+// Thrown instead of opening the sign-in popup for calls that aren't
+// interactive, e.g. queued edits retried in the background. Worth retrying
+// once the user has signed in again.
+export class GoogleSignInRequiredError extends Error {
+  constructor() {
+    super('Sign in with Google to save changes to the sheet');
+    this.name = 'GoogleSignInRequiredError';
+  }
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+let scriptPromise: Promise<void> | null = null;
+
+function loadIdentityScript(): Promise<void> {
+  if (window.google?.accounts) return Promise.resolve();
+  if (!scriptPromise) {
+    scriptPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = GIS_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        scriptPromise = null;
+        reject(new Error('Could not load Google sign-in'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return scriptPromise;
+}
+
+// Return a valid access token. `refresh` skips the cached token after the API
+// rejected it. Browsers block popups opened without a recent click or key
+// press, so only `interactive` calls, made from such a handler, may prompt
+// the user to sign in; others fail with GoogleSignInRequiredError when no
+// cached token is left.
+export async function getGoogleAccessToken(
+  { refresh = false, interactive = false }: { refresh?: boolean; interactive?: boolean } = {}
+): Promise<string> {
+  const fixedToken = import.meta.env.VITE_GOOGLE_ACCESS_TOKEN;
+  if (fixedToken) return fixedToken;
+
+  if (refresh) cachedToken = null;
+  if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) {
+    return cachedToken.value;
+  }
+  if (!interactive) {
+    throw new GoogleSignInRequiredError();
+  }
+
+  const clientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
+  if (!clientId) {
+    throw new Error('Saving to Google Sheets is not configured (missing VITE_GOOGLE_CLIENT_ID)');
+  }
+
+  await loadIdentityScript();
+
+  return new Promise((resolve, reject) => {
+    const client = window.google!.accounts.oauth2.initTokenClient({
+      client_id: clientId,
+      scope: SHEETS_SCOPE,
+      callback: (response) => {
+        if (response.error || !response.access_token) {
+          reject(new Error(response.error_description || 'Google sign-in was not completed'));
+          return;
+        }
+        cachedToken = {
+          value: response.access_token,
+          expiresAt: Date.now() + (response.expires_in ?? 3600) * 1000,
+        };
+        resolve(response.access_token);
+      },
+      error_callback: (error) => {
+        reject(new Error(error.message || 'Google sign-in was cancelled'));
+      },
+    });
+    client.requestAccessToken();
+  });
+}
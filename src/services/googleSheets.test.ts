@@ -0,0 +1,92 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockSheetsServer, startMockSheetsServer } from '@/test/mockSheetsServer';
+import { GoogleSheetsService } from './googleSheets';
+import { SheetsApiClient } from './sheetsApi';
+
+const SPREADSHEET_ID = 'sheet-123';
+const HEADER = ['ID', 'Image URL', 'Label', 'Comments', 'Last edited by', 'Last edited at'];
+const STAMP = { by: 'Sam', at: '2026-01-02T03:04:05.000Z' };
+
+describe('GoogleSheetsService write-back', () => {
+  let server: MockSheetsServer;
+  let service: GoogleSheetsService;
+
+  const rows = () => server.sheets[1].rows;
+
+  beforeEach(async () => {
+    // Edits here never reach the offline copy, which only logs a warning
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server = await startMockSheetsServer({
+      spreadsheetId: SPREADSHEET_ID,
+      sheets: [
+        { sheetId: 0, title: 'Notes', rows: [['note']] },
+        {
+          sheetId: 42,
+          title: 'Images',
+          rows: [
+            HEADER,
+            ['a', 'https://example.com/a.jpg', 'cat', '', '', ''],
+            ['b', 'https://example.com/b.jpg', 'dog', 'blurry', '', ''],
+          ],
+        },
+      ],
+    });
+    service = new GoogleSheetsService(
+      { sheetUrl: `https://docs.google.com/spreadsheets/d/${SPREADSHEET_ID}/edit`, spreadsheetId: SPREADSHEET_ID, gid: '42' },
+      'sheets-test',
+      'image_gallery_data:sheets-test',
+      new SheetsApiClient({ baseUrl: server.baseUrl, getAccessToken: async () => server.token, retryDelay: 1 })
+    );
+  });
+
+  afterEach(async () => {
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it('writes a label into the row with the image ID, with the edit stamp', async () => {
+    await service.updateImageLabel('b', 'puppy', STAMP);
+
+    expect(rows()[2]).toEqual(['b', 'https://example.com/b.jpg', 'puppy', 'blurry', 'Sam', STAMP.at]);
+    expect(rows()[1]).toEqual(['a', 'https://example.com/a.jpg', 'cat', '', '', '']);
+  });
+
+  it('writes a single cell when there is no stamp', async () => {
+    await service.updateImageComments('a', 'sharp');
+
+    expect(rows()[1]).toEqual(['a', 'https://example.com/a.jpg', 'cat', 'sharp', '', '']);
+    expect(server.requests.filter(request => request.method === 'PUT')).toHaveLength(1);
+  });
+
+  it('reads the layout and row map once for several edits', async () => {
+    await service.updateImageLabel('a', 'kitten');
+    await service.updateImageLabel('b', 'puppy');
+
+    expect(server.requests.filter(request => request.method === 'GET')).toHaveLength(3);
+  });
+
+  it('fails for an image that is not in the sheet', async () => {
+    await expect(service.updateImageLabel('missing', 'bird')).rejects.toThrow('Image not found in the sheet');
+  });
+
+  it('appends added images and deletes them again', async () => {
+    const added = await service.addImage('https://example.com/c.jpg', 'bird', STAMP);
+
+    expect(rows()[3]).toEqual([added.id, 'https://example.com/c.jpg', 'bird', '', 'Sam', STAMP.at]);
+
+    await service.deleteImage(added.id);
+    expect(rows().map(row => row[0])).toEqual(['ID', 'a', 'b']);
+  });
+
+  it('re-reads a row map gone stale before reading or deleting a row', async () => {
+    await service.updateImageLabel('b', 'puppy');
+    // Someone inserts a row above while the map is cached
+    rows().splice(1, 0, ['z', 'https://example.com/z.jpg', 'fish', '', '', '']);
+
+    expect(await service.getImage('b')).toMatchObject({ id: 'b', label: 'puppy', comments: 'blurry' });
+
+    await service.deleteImage('b');
+    expect(rows().map(row => row[0])).toEqual(['ID', 'z', 'a']);
+  });
+});
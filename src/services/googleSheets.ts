@@ -1,199 +1,481 @@
 import { ImageData } from '@/components/ImageGallery';
+import { parseCSV, parseCSVStream } from '@/lib/csv';
+import { createHasher } from '@/lib/hash';
+import { createUrlIdAllocator, isUrlDerivedId, urlIdMatches } from '@/lib/ids';
+import { ColumnIndexes, ColumnMapping, IMAGE_FIELD_LABELS, ImageField, resolveColumnIndexes } from './columnMapping';
+import { DataSource, DataSourceCapabilities, FetchResult } from './dataSource';
+import { LocalDataSource } from './localStore';
+import { ImportReport, importRows } from './rowImport';
+import { EditStamp } from './annotator';
+import { SheetsApiClient, SheetsApiError, columnLetter, quoteSheetTitle } from './sheetsApi';
+import { GoogleSignInRequiredError, getGoogleAccessToken } from './googleAuth';
+import { SheetLocation } from '@/lib/sheetUrl';
 
-// Google Sheets CSV API endpoint (read-only)
-// Users will need to publish their sheet to web and get the CSV URL
-const DEMO_SHEET_URL = 'https://docs.google.com/spreadsheets/d/e/2PACX-1vSample/pub?output=csv';
-
-// For demo purposes, we'll use local storage and mock data
-const STORAGE_KEY = 'image_gallery_data';
-
-// Mock data for demonstration
-const DEMO_IMAGES: ImageData[] = [
-  {
-    id: '1',
-    url: 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=800&h=800&fit=crop',
-    label: 'Mountain Landscape'
-  },
-  {
-    id: '2', 
-    url: 'https://images.unsplash.com/photo-1441974231531-c6227db76b6e?w=800&h=800&fit=crop',
-    label: 'Forest Path'
-  },
-  {
-    id: '3',
-    url: 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=800&h=800&fit=crop&auto=format&q=80',
-    label: 'Ocean Sunset'
-  },
-  {
-    id: '4',
-    url: 'https://images.unsplash.com/photo-1518837695005-2083093ee35b?w=800&h=800&fit=crop',
-    label: 'Desert Dunes'
-  },
-  {
-    id: '5',
-    url: 'https://images.unsplash.com/photo-1501594907352-04cda38ebc29?w=800&h=800&fit=crop',
-    label: 'Tropical Beach'
-  },
-  {
-    id: '6',
-    url: 'https://images.unsplash.com/photo-1447752875215-b2761acb3c5d?w=800&h=800&fit=crop',
-    label: 'Rolling Hills'
-  }
-];
-
-interface GoogleSheetsConfig {
-  sheetUrl?: string;
-  useMockData?: boolean;
+// Reads come from the published CSV (no sign-in needed). Edits are written
+// back through the Sheets API, which needs the spreadsheet's real ID.
+export interface GoogleSheetsConfig {
+  sheetUrl: string;
+  columnMapping?: ColumnMapping;
+  spreadsheetId?: string;
+  gid?: string;
 }
 
-class GoogleSheetsService {
+// Where the gallery's columns live in the target tab
+interface SheetLayout {
+  title: string;
+  sheetId: number;
+  columnCount: number;
+  columns: ColumnIndexes;
+}
+
+export class GoogleSheetsService implements DataSource {
+  readonly id: string;
+  readonly kind = 'google-sheets';
+  readonly name = 'Google Sheets';
+  readonly capabilities: DataSourceCapabilities;
+
   private config: GoogleSheetsConfig;
+  // Local copy of the last fetched rows, served when the sheet is unreachable
+  private cache: LocalDataSource;
+  private api: SheetsApiClient;
+  private importReport: ImportReport | null = null;
+  // Validators of the last successful read, to recognise an unchanged sheet
+  private lastVersion: SheetVersion | null = null;
+  // Tab layout and the row of each image, read from the API when first
+  // needed after a fetch, so edits cost one call to check the row and one
+  // to write it
+  private layout: Promise<SheetLayout> | null = null;
+  private rowNumbers: Promise<Map<string, number>> | null = null;
 
-  constructor(config: GoogleSheetsConfig = {}) {
-    this.config = {
-      useMockData: true,
-      ...config
+  // `api` defaults to the Sheets API with the signed-in user's token
+  constructor(
+    config: GoogleSheetsConfig,
+    id: string,
+    cacheKey: string,
+    api = new SheetsApiClient({ getAccessToken: getGoogleAccessToken })
+  ) {
+    this.config = config;
+    this.id = id;
+    this.api = api;
+    this.cache = new LocalDataSource(id, { seed: [], legacyKey: cacheKey, remoteCopy: true });
+
+    // A bare published link has no spreadsheet ID to write back to
+    const writable = !!config.spreadsheetId;
+    this.capabilities = {
+      readOnly: !writable,
+      supportsComments: true,
+      supportsAdd: writable,
+      supportsDelete: writable,
     };
   }
 
-  // Initialize data (first load)
-  async initializeData(): Promise<ImageData[]> {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
+  // Fetch images from Google Sheets. When the sheet can't be read, the last
+  // fetched copy is served and the status says so.
+  async fetchImages(): Promise<FetchResult> {
+    try {
+      const content = await fetchSheetContent(this.config.sheetUrl, this.lastVersion);
+      if (content.kind === 'unchanged') {
+        return {
+          images: await this.cache.initializeData(),
+          status: { state: 'live', fetchedAt: Date.now() },
+          unchanged: true,
+        };
+      }
+
+      const { images, report } = importRows(content.rows, this.config.columnMapping);
+      this.importReport = report;
+      this.forgetLayout();
+      let storageError: string | undefined;
       try {
-        return JSON.parse(stored);
+        await this.cache.replaceAll(images);
+        this.lastVersion = content.version;
       } catch (error) {
-        console.error('Failed to parse stored data:', error);
+        // Still serve the live rows, but tell the user the offline copy is
+        // stale; a full quota arrives as StorageQuotaError
+        console.warn('Could not cache sheet rows for offline use:', error);
+        storageError = error instanceof Error ? error.message : String(error);
+        this.lastVersion = null;
+      }
+      return { images, status: { state: 'live', fetchedAt: Date.now(), ...(storageError && { storageError }) } };
+    } catch (error) {
+      console.error('Failed to fetch from Google Sheets:', error);
+      const message = error instanceof Error ? error.message : String(error);
+
+      const fetchedAt = await this.cache.getFetchedAt();
+      if (fetchedAt === null) {
+        return { images: [], status: { state: 'error', error: message } };
       }
+      return {
+        images: await this.cache.initializeData(),
+        status: { state: 'cached', fetchedAt, error: message },
+      };
     }
+  }
 
-    // Use demo data for first time
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(DEMO_IMAGES));
-    return DEMO_IMAGES;
+  getImportReport(): ImportReport | null {
+    return this.importReport;
   }
 
-  // Fetch images from Google Sheets
-  async fetchImages(): Promise<ImageData[]> {
-    if (this.config.useMockData) {
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 800));
-      return this.initializeData();
-    }
+  // Opens the Google sign-in when no token is cached
+  async signIn(): Promise<void> {
+    if (this.capabilities.readOnly) return;
+    await getGoogleAccessToken({ interactive: true });
+  }
 
-    try {
-      if (!this.config.sheetUrl) {
-        throw new Error('Google Sheets URL not configured');
+  // Update image label
+  async updateImageLabel(id: string, newLabel: string, stamp?: EditStamp): Promise<void> {
+    await this.writeFields(id, { label: newLabel }, stamp);
+    await this.updateCache(() => this.cache.updateImageLabel(id, newLabel, stamp));
+  }
+
+  // Update image comments
+  async updateImageComments(id: string, newComments: string, stamp?: EditStamp): Promise<void> {
+    await this.writeFields(id, { comments: newComments }, stamp);
+    await this.updateCache(() => this.cache.updateImageComments(id, newComments, stamp));
+  }
+
+  // Add new image as a row at the end of the tab
+  async addImage(url: string, label: string, stamp?: EditStamp): Promise<ImageData> {
+    const spreadsheetId = this.requireSpreadsheetId();
+    return this.withLayout(async (layout) => {
+      // Without an ID column the row is known by its URL, like on import
+      let id: string | undefined;
+      if (layout.columns.id === -1) {
+        const allocateUrlId = createUrlIdAllocator();
+        for (const image of await this.cache.initializeData()) allocateUrlId(image.url);
+        id = allocateUrlId(url);
+      }
+      const newImage = await this.cache.addImage(url, label, stamp, id);
+
+      const row = new Array<string>(layout.columnCount).fill('');
+      if (layout.columns.id !== -1) row[layout.columns.id] = newImage.id;
+      if (layout.columns.url !== -1) row[layout.columns.url] = url;
+      if (layout.columns.label !== -1) row[layout.columns.label] = label;
+      if (stamp && layout.columns.editedBy !== -1) row[layout.columns.editedBy] = stamp.by;
+      if (stamp && layout.columns.editedAt !== -1) row[layout.columns.editedAt] = stamp.at;
+
+      try {
+        await this.api.appendValues(spreadsheetId, quoteSheetTitle(layout.title), [row]);
+      } catch (error) {
+        await this.cache.deleteImage(newImage.id);
+        throw error;
       }
+      this.rowNumbers = null;
+
+      return newImage;
+    });
+  }
 
-      const response = await fetch(this.config.sheetUrl);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+  // Delete image by removing its row from the tab. The row is read back
+  // first, so a row map gone stale can't remove the wrong row.
+  async deleteImage(id: string): Promise<void> {
+    const spreadsheetId = this.requireSpreadsheetId();
+    await this.withLayout(async (layout) => {
+      const located = await this.locateRow(layout, id, true);
+      if (!located) {
+        throw new Error('Image not found in the sheet');
       }
 
-      const csvText = await response.text();
-      return this.parseCSV(csvText);
-    } catch (error) {
-      console.error('Failed to fetch from Google Sheets:', error);
-      // Fallback to stored data
-      return this.initializeData();
-    }
+      await this.api.batchUpdate(spreadsheetId, [{
+        deleteDimension: {
+          range: {
+            sheetId: layout.sheetId,
+            dimension: 'ROWS',
+            startIndex: located.rowNumber - 1,
+            endIndex: located.rowNumber,
+          },
+        },
+      }]);
+      // Every row below moved up
+      this.rowNumbers = null;
+    });
+    await this.updateCache(() => this.cache.deleteImage(id));
   }
 
-  // Update image label
-  async updateImageLabel(id: string, newLabel: string): Promise<void> {
-    const images = await this.initializeData();
-    const imageIndex = images.findIndex(img => img.id === id);
-    
-    if (imageIndex === -1) {
-      throw new Error('Image not found');
-    }
+  // Read the image's row straight from the sheet
+  async getImage(id: string): Promise<ImageData | null> {
+    if (!this.config.spreadsheetId) return null;
 
-    images[imageIndex].label = newLabel;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(images));
+    return this.withLayout(async (layout) => {
+      const located = await this.locateRow(layout, id, true);
+      if (!located) return null;
 
-    // In a real implementation, this would update the Google Sheet via API
-    // For now, we'll simulate the API call
-    await new Promise(resolve => setTimeout(resolve, 500));
+      const cell = (index: number) => (index === -1 ? '' : (located.row[index] || '').trim());
+      return {
+        id,
+        url: cell(layout.columns.url),
+        label: cell(layout.columns.label) || 'Untitled',
+        comments: cell(layout.columns.comments),
+        editedBy: cell(layout.columns.editedBy),
+        editedAt: cell(layout.columns.editedAt),
+      };
+    });
   }
 
-  // Update image comments
-  async updateImageComments(id: string, newComments: string): Promise<void> {
-    const images = await this.initializeData();
-    const imageIndex = images.findIndex(img => img.id === id);
-    
-    if (imageIndex === -1) {
-      throw new Error('Image not found');
+  // Write changed fields into the image's row: values.update for a single
+  // cell, values.batchUpdate when several cells change at once. The stamp
+  // goes into the "Last edited by / at" columns when the tab has them.
+  // Queued edits read the row through getImage just before, which checks
+  // the row map is still right.
+  private async writeFields(id: string, changes: Partial<Record<ImageField, string>>, stamp?: EditStamp): Promise<void> {
+    const spreadsheetId = this.requireSpreadsheetId();
+    await this.withLayout(async (layout) => {
+      const located = await this.locateRow(layout, id);
+      if (!located) {
+        throw new Error('Image not found in the sheet');
+      }
+      const { rowNumber } = located;
+
+      const data = Object.entries(changes).map(([field, value]) => {
+        const column = layout.columns[field as ImageField];
+        if (column === -1) {
+          throw new Error(`The sheet has no ${IMAGE_FIELD_LABELS[field as ImageField]} column`);
+        }
+        return {
+          range: `${quoteSheetTitle(layout.title)}!${columnLetter(column)}${rowNumber}`,
+          values: [[value]],
+        };
+      });
+
+      const stampCells: [number, string][] = stamp
+        ? [[layout.columns.editedBy, stamp.by], [layout.columns.editedAt, stamp.at]]
+        : [];
+      for (const [column, value] of stampCells) {
+        if (column === -1) continue;
+        data.push({
+          range: `${quoteSheetTitle(layout.title)}!${columnLetter(column)}${rowNumber}`,
+          values: [[value]],
+        });
+      }
+
+      if (data.length === 1) {
+        await this.api.updateValues(spreadsheetId, data[0].range, data[0].values);
+      } else if (data.length > 1) {
+        await this.api.batchUpdateValues(spreadsheetId, data);
+      }
+    });
+  }
+
+  // Run work against the tab's layout. A request the sheet rejects as
+  // invalid usually means a renamed tab or moved columns, so the cached
+  // layout and row map are read again next time.
+  private async withLayout<T>(work: (layout: SheetLayout) => Promise<T>): Promise<T> {
+    const layout = await this.loadLayout();
+    try {
+      return await work(layout);
+    } catch (error) {
+      if (error instanceof SheetsApiError && error.status === 400) this.forgetLayout();
+      throw error;
     }
+  }
 
-    images[imageIndex].comments = newComments;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(images));
+  private forgetLayout() {
+    this.layout = null;
+    this.rowNumbers = null;
+  }
 
-    // In a real implementation, this would update the Google Sheet via API
-    // For now, we'll simulate the API call
-    await new Promise(resolve => setTimeout(resolve, 500));
+  // The tab's layout, read once per fetch of the sheet
+  private loadLayout(): Promise<SheetLayout> {
+    if (!this.layout) {
+      const layout = this.readLayout();
+      this.layout = layout;
+      layout.catch(() => {
+        if (this.layout === layout) this.layout = null;
+      });
+    }
+    return this.layout;
   }
 
-  // Add new image
-  async addImage(url: string, label: string): Promise<ImageData> {
-    const images = await this.initializeData();
-    const newImage: ImageData = {
-      id: Date.now().toString(),
-      url,
-      label
+  // Resolve the tab (by gid) and where each mapped column sits in it
+  private async readLayout(): Promise<SheetLayout> {
+    const spreadsheetId = this.requireSpreadsheetId();
+    const sheets = await this.api.getSheets(spreadsheetId);
+    const gid = Number(this.config.gid ?? 0);
+    const sheet = sheets.find(s => s.sheetId === gid) ?? sheets[0];
+    if (!sheet) {
+      throw new Error('The spreadsheet has no tabs');
+    }
+
+    const [headers = []] = await this.api.getValues(spreadsheetId, `${quoteSheetTitle(sheet.title)}!1:1`);
+    return {
+      title: sheet.title,
+      sheetId: sheet.sheetId,
+      columnCount: headers.length,
+      columns: resolveColumnIndexes(headers, this.config.columnMapping),
     };
+  }
 
-    images.push(newImage);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(images));
+  // 1-based sheet row of every image, read once per fetch of the sheet
+  private loadRowNumbers(layout: SheetLayout): Promise<Map<string, number>> {
+    if (!this.rowNumbers) {
+      const rowNumbers = this.readRowNumbers(layout);
+      this.rowNumbers = rowNumbers;
+      rowNumbers.catch(() => {
+        if (this.rowNumbers === rowNumbers) this.rowNumbers = null;
+      });
+    }
+    return this.rowNumbers;
+  }
 
-    return newImage;
+  // Replays importRows over the tab's current rows, so every image is found
+  // by the same ID it was loaded with, whether from the ID column or its URL
+  private async readRowNumbers(layout: SheetLayout): Promise<Map<string, number>> {
+    const rows = await this.api.getValues(this.requireSpreadsheetId(), quoteSheetTitle(layout.title));
+    const { images, rowNumbers } = importRows(rows, this.config.columnMapping);
+    return new Map(images.map((image, i) => [image.id, rowNumbers[i]]));
   }
 
-  // Delete image
-  async deleteImage(id: string): Promise<void> {
-    const images = await this.initializeData();
-    const filteredImages = images.filter(img => img.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filteredImages));
-  }
-
-  // Parse CSV data from Google Sheets
-  private parseCSV(csvText: string): ImageData[] {
-    const lines = csvText.split('\n');
-    const images: ImageData[] = [];
-
-    // Skip header row
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      const [id, url, label] = line.split(',').map(cell => 
-        cell.replace(/^"/, '').replace(/"$/, '').trim()
-      );
-
-      if (url && url.startsWith('http')) {
-        images.push({
-          id: id || i.toString(),
-          url,
-          label: label || 'Untitled'
-        });
+  // Where the image's row is. With `verify` the row is read back, and a row
+  // map gone stale because rows moved in the sheet meanwhile is read again
+  // once. Null when the image isn't in the sheet.
+  private async locateRow(
+    layout: SheetLayout,
+    id: string,
+    verify = false
+  ): Promise<{ rowNumber: number; row: string[] } | null> {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const fresh = !this.rowNumbers;
+      const rowNumber = (await this.loadRowNumbers(layout)).get(id);
+      if (rowNumber !== undefined) {
+        if (!verify) return { rowNumber, row: [] };
+
+        const [row = []] = await this.api.getValues(
+          this.requireSpreadsheetId(),
+          `${quoteSheetTitle(layout.title)}!${rowNumber}:${rowNumber}`
+        );
+        if (rowHolds(layout, row, id)) return { rowNumber, row };
       }
+      if (fresh) return null;
+      this.rowNumbers = null;
     }
+    return null;
+  }
 
-    return images;
+  // Mirror a write that already reached the sheet. The edit succeeded, so a
+  // cache failure (image not cached, full quota) is only logged; the next
+  // fetch replaces the offline copy anyway.
+  private async updateCache(write: () => Promise<void>): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      console.warn('Could not update the offline copy after saving to the sheet:', error);
+    }
   }
 
-  // Configure Google Sheets URL
-  setSheetUrl(url: string) {
-    this.config.sheetUrl = url;
-    this.config.useMockData = false;
+  private requireSpreadsheetId(): string {
+    if (!this.config.spreadsheetId) {
+      throw new Error('This sheet was connected with a published link. Connect it with its edit link to save changes.');
+    }
+    return this.config.spreadsheetId;
   }
+}
+
+// Whether a row read back from the sheet still holds the image: its ID
+// cell, or for rows known by their URL, its URL
+function rowHolds(layout: SheetLayout, row: string[], id: string): boolean {
+  const cell = (index: number) => (index === -1 ? '' : (row[index] || '').trim());
+  if (cell(layout.columns.id) === id) return true;
+  return isUrlDerivedId(id) && urlIdMatches(id, cell(layout.columns.url));
+}
+
+// Download and tokenize a published CSV
+export async function fetchSheetRows(sheetUrl: string): Promise<string[][]> {
+  const response = await fetch(sheetUrl);
+  if (!response.ok) {
+    throw new Error(`The sheet returned HTTP ${response.status}`);
+  }
+
+  return response.body
+    ? parseCSVStream(response.body)
+    : parseCSV(await response.text());
+}
+
+// ETag of the response when the server exposes it, and a hash of the body
+interface SheetVersion {
+  etag: string | null;
+  contentHash: string;
+}
+
+type SheetContent =
+  | { kind: 'unchanged' }
+  | { kind: 'changed'; rows: string[][]; version: SheetVersion };
+
+// Read the sheet, recognising content that matches `previous`. The request
+// is revalidated against the browser's HTTP cache ('no-cache'), so the
+// browser sends the stored ETag itself; adding If-None-Match by hand would
+// make it a preflighted CORS request, which the export endpoint refuses.
+// Most exports don't expose their ETag, so the body hash is the fallback.
+async function fetchSheetContent(sheetUrl: string, previous: SheetVersion | null): Promise<SheetContent> {
+  const response = await fetch(sheetUrl, { cache: 'no-cache' });
+  if (!response.ok) {
+    throw new Error(`The sheet returned HTTP ${response.status}`);
+  }
+
+  const etag = response.headers.get('ETag');
+  if (previous && etag && etag === previous.etag) {
+    await response.body?.cancel();
+    return { kind: 'unchanged' };
+  }
+
+  const hasher = createHasher();
+  let rows: string[][];
+  if (response.body) {
+    rows = await parseCSVStream(response.body, text => hasher.update(text));
+  } else {
+    const text = await response.text();
+    hasher.update(text);
+    rows = parseCSV(text);
+  }
+
+  const contentHash = hasher.digest();
+  if (previous && contentHash === previous.contentHash) {
+    return { kind: 'unchanged' };
+  }
+  return { kind: 'changed', rows, version: { etag, contentHash } };
+}
+
+// Fetch the header row of a sheet, used to build the column mapping UI
+export async function fetchSheetHeaders(sheetUrl: string): Promise<string[]> {
+  const rows = await fetchSheetRows(sheetUrl);
+  return (rows[0] || []).map(cell => cell.trim());
+}
+
+export interface SheetTab {
+  gid: string;
+  title: string;
+}
+
+// Tabs of a sheet by name, where they can be discovered: through the Sheets
+// API for spreadsheet IDs (requires sign-in), or from the published HTML page
+// for published documents. Resolves to null when the list isn't available,
+// and fails with GoogleSignInRequiredError when it needs a sign-in first.
+// Only `interactive` calls, made from a click handler, may open the sign-in.
+export async function listSheetTabs(
+  location: SheetLocation,
+  { interactive = false }: { interactive?: boolean } = {}
+): Promise<SheetTab[] | null> {
+  try {
+    if (location.kind === 'spreadsheet') {
+      const api = new SheetsApiClient({
+        getAccessToken: options => getGoogleAccessToken({ ...options, interactive }),
+      });
+      const sheets = await api.getSheets(location.id);
+      return sheets
+        .sort((a, b) => a.index - b.index)
+        .map(sheet => ({ gid: String(sheet.sheetId), title: sheet.title }));
+    }
 
-  // Reset to demo mode
-  resetToDemo() {
-    this.config.useMockData = true;
-    localStorage.removeItem(STORAGE_KEY);
+    const response = await fetch(`https://docs.google.com/spreadsheets/d/e/${location.id}/pubhtml`);
+    if (!response.ok) return null;
+    const html = await response.text();
+    const tabs = [...html.matchAll(/switchToSheet\('(\d+)'\)[^>]*>([^<]+)</g)]
+      .map(([, gid, title]) => ({ gid, title: title.trim() }));
+    return tabs.length > 0 ? tabs : null;
+  } catch (error) {
+    if (error instanceof GoogleSignInRequiredError) throw error;
+    console.error('Failed to list sheet tabs:', error);
+    return null;
   }
 }
 
-// Export singleton instance
-export const googleSheetsService = new GoogleSheetsService();
-export type { ImageData };
\ No newline at end of file
+export type { ImageData };
@@ -0,0 +1,21 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { LocalDataSource } from './localStore';
+
+describe('LocalDataSource', () => {
+  it('keeps the fetch time of an offline copy through local edits', async () => {
+    const cache = new LocalDataSource('fetched-at-test', { seed: [], remoteCopy: true });
+    const fetchedAt = Date.now() - 3 * 24 * 60 * 60 * 1000;
+    await cache.replaceAll([{ id: 'a', url: 'https://example.com/a.jpg', label: 'cat' }], fetchedAt);
+
+    await cache.updateImageLabel('a', 'kitten');
+    await cache.addImage('https://example.com/b.jpg', 'dog');
+    await cache.deleteImage('a');
+
+    expect(await cache.getFetchedAt()).toBe(fetchedAt);
+  });
+
+  it('has no fetch time before anything is stored', async () => {
+    expect(await new LocalDataSource('empty-test', { seed: [] }).getFetchedAt()).toBeNull();
+  });
+});
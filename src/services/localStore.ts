@@ -0,0 +1,387 @@
+import { ImageData } from '@/components/ImageGallery';
+import { DataSource, DataSourceCapabilities, DataSourceKind, FetchResult } from './dataSource';
+import { EditStamp, stampFields } from './annotator';
+import { newImageId } from '@/lib/ids';
+import { requestToPromise, transactionDone } from '@/lib/idb';
+import { toStorageError } from '@/lib/storage';
+import { IMAGES_STORE, IMAGE_SETS_STORE, getDatabase } from './database';
+import { SCHEMA_VERSION, StoredImages, migrateStoredImages, quarantine, quarantineKey } from './storageSchema';
+import { RowBase, toBase } from './baseVersions';
+
+
+// Mock data for demonstration
+const DEMO_IMAGES: ImageData[] = [
+  {
+    id: '1',
+    url: 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=800&h=800&fit=crop',
+    label: 'Mountain Landscape'
+  },
+  {
+    id: '2', 
+    url: 'https://images.unsplash.com/photo-1441974231531-c6227db76b6e?w=800&h=800&fit=crop',
+    label: 'Forest Path'
+  },
+  {
+    id: '3',
+    url: 'https://images.unsplash.com/photo-1507525428034-b723cf961d3e?w=800&h=800&fit=crop',
+    label: 'Ocean Sunset'
+  },
+  {
+    id: '4',
+    url: 'https://images.unsplash.com/photo-1518837695005-2083093ee35b?w=800&h=800&fit=crop',
+    label: 'Desert Dunes'
+  },
+  {
+    id: '5',
+    url: 'https://images.unsplash.com/photo-1501594907352-04cda38ebc29?w=800&h=800&fit=crop',
+    label: 'Tropical Beach'
+  },
+  {
+    id: '6',
+    url: 'https://images.unsplash.com/photo-1447752875215-b2761acb3c5d?w=800&h=800&fit=crop',
+    label: 'Rolling Hills'
+  }
+];
+
+// Whether a stored image matches its source as last read or written
+// ('synced'), or was only changed in this browser ('local')
+export type ImageSyncState = 'synced' | 'local';
+
+// An image as stored in IndexedDB
+interface ImageRecord extends ImageData {
+  sourceId: string;
+  // Sort key preserving the source's row order
+  position: number;
+  updatedAt: number;
+  syncState: ImageSyncState;
+  // Remote value of the editable fields as last read or written, for
+  // conflict detection (see baseVersions)
+  base?: RowBase;
+}
+
+// Per-source bookkeeping stored next to the image records
+interface ImageSetRecord {
+  sourceId: string;
+  schemaVersion: number;
+  // Last write of any kind
+  savedAt: number;
+  // When the set last came from its source through replaceAll; local edits
+  // don't move it, so it tells how old an offline copy of a remote source is
+  fetchedAt: number;
+  nextPosition: number;
+}
+
+interface LocalDataSourceOptions {
+  // Images a new store starts with
+  seed?: ImageData[];
+  // localStorage key to import a pre-IndexedDB copy from
+  legacyKey?: string;
+  // 'local-file' for data imported from a file; defaults to the demo store
+  kind?: DataSourceKind;
+  name?: string;
+  // The store mirrors a remote source and is only written after the remote
+  // write succeeded, so its edits count as synced
+  remoteCopy?: boolean;
+}
+
+function toImage({ id, url, label, comments, regions, editedBy, editedAt }: ImageRecord): ImageData {
+  return {
+    id,
+    url,
+    label,
+    ...(comments !== undefined && { comments }),
+    ...(regions !== undefined && { regions }),
+    ...(editedBy !== undefined && { editedBy }),
+    ...(editedAt !== undefined && { editedAt }),
+  };
+}
+
+// Demo store kept in this browser's IndexedDB, one record per image. Also
+// holds data imported from files, and serves remote sources as their offline
+// copy; those are seeded with nothing instead of demo images.
+export class LocalDataSource implements DataSource {
+  readonly id: string;
+  readonly kind: DataSourceKind;
+  readonly name: string;
+  readonly capabilities: DataSourceCapabilities = {
+    readOnly: false,
+    supportsComments: true,
+    supportsAdd: true,
+    supportsDelete: true,
+  };
+
+  private seed: ImageData[];
+  private legacyKey: string | undefined;
+  private editState: ImageSyncState;
+
+  constructor(sourceId = 'demo', {
+    seed = DEMO_IMAGES,
+    legacyKey,
+    kind = 'demo',
+    name = 'Demo data',
+    remoteCopy = false,
+  }: LocalDataSourceOptions = {}) {
+    this.id = sourceId;
+    this.kind = kind;
+    this.name = name;
+    this.seed = seed;
+    this.legacyKey = legacyKey;
+    this.editState = remoteCopy ? 'synced' : 'local';
+  }
+
+  // Stored images in source order; seeds the store on first use
+  async initializeData(): Promise<ImageData[]> {
+    const stored = await this.load();
+    if (stored) return stored.images;
+
+    // Use demo data for first time
+    await this.replaceAll(this.seed);
+    return [...this.seed];
+  }
+
+  async fetchImages(): Promise<FetchResult> {
+    if (this.kind !== 'demo') {
+      return { images: await this.initializeData(), status: { state: 'local' } };
+    }
+
+    // Simulate API delay
+    await new Promise(resolve => setTimeout(resolve, 800));
+    return { images: await this.initializeData(), status: { state: 'demo' } };
+  }
+
+  // When the stored set was last replaced with data from its source, or
+  // null if nothing is stored
+  async getFetchedAt(): Promise<number | null> {
+    const set = await this.getSet();
+    if (set) return set.fetchedAt;
+
+    const legacy = await this.importLegacy();
+    return legacy ? legacy.savedAt : null;
+  }
+
+  // Replace the stored set, e.g. with a fresh copy of a remote sheet. Each
+  // image is its own base unless `bases` has one for it. `fetchedAt`
+  // defaults to the save time; migrations keep the one already stored.
+  async replaceAll(
+    images: ImageData[],
+    savedAt = Date.now(),
+    bases?: Map<string, RowBase>,
+    fetchedAt = savedAt
+  ): Promise<void> {
+    await this.write((store, sets) => {
+      store.delete(this.recordRange());
+      images.forEach((image, position) => {
+        const base = bases?.get(image.id) ?? toBase(image);
+        store.put({ ...image, sourceId: this.id, position, updatedAt: savedAt, syncState: 'synced', base });
+      });
+      sets.put({ sourceId: this.id, schemaVersion: SCHEMA_VERSION, savedAt, fetchedAt, nextPosition: images.length });
+    });
+  }
+
+  async updateImageLabel(id: string, newLabel: string, stamp?: EditStamp): Promise<void> {
+    await this.updateImage(id, { label: newLabel, ...stampFields(stamp) });
+  }
+
+  async updateImageComments(id: string, newComments: string, stamp?: EditStamp): Promise<void> {
+    await this.updateImage(id, { comments: newComments, ...stampFields(stamp) });
+  }
+
+  // `id` lets callers that derive IDs themselves pick it; defaults to a UUID
+  async addImage(url: string, label: string, stamp?: EditStamp, id: string = newImageId()): Promise<ImageData> {
+    const newImage: ImageData = {
+      id,
+      url,
+      label,
+      ...stampFields(stamp),
+    };
+
+    await this.write((store, sets) => {
+      sets.get(this.id).onsuccess = (event) => {
+        const set = (event.target as IDBRequest<ImageSetRecord | undefined>).result;
+        const position = set?.nextPosition ?? 0;
+        store.put({ ...newImage, sourceId: this.id, position, updatedAt: Date.now(), syncState: this.editState, base: toBase(newImage) });
+        sets.put({ schemaVersion: SCHEMA_VERSION, fetchedAt: 0, ...set, sourceId: this.id, nextPosition: position + 1, savedAt: Date.now() });
+      };
+    });
+
+    return newImage;
+  }
+
+  async deleteImage(id: string): Promise<void> {
+    await this.write((store, sets) => {
+      store.delete([this.id, id]);
+      this.touch(sets);
+    });
+  }
+
+  // Images whose label is exactly `label`, in source order
+  async findByLabel(label: string): Promise<ImageData[]> {
+    return this.query('label', IDBKeyRange.only([this.id, label]));
+  }
+
+  // Images changed since `timestamp`, oldest change first
+  async listUpdatedSince(timestamp: number): Promise<ImageData[]> {
+    return this.query('updatedAt', IDBKeyRange.bound([this.id, timestamp], [this.id, Infinity]), false);
+  }
+
+  async listBySyncState(syncState: ImageSyncState): Promise<ImageData[]> {
+    return this.query('syncState', IDBKeyRange.only([this.id, syncState]));
+  }
+
+  // Drop everything stored for this source
+  async clear(): Promise<void> {
+    if (this.legacyKey) {
+      localStorage.removeItem(this.legacyKey);
+      localStorage.removeItem(`${this.legacyKey}:savedAt`);
+    }
+    await this.write((store, sets) => {
+      store.delete(this.recordRange());
+      sets.delete(this.id);
+    });
+  }
+
+  private async updateImage(id: string, changes: Partial<ImageData>): Promise<void> {
+    let found = false;
+
+    await this.write((store, sets) => {
+      store.get([this.id, id]).onsuccess = (event) => {
+        const record = (event.target as IDBRequest<ImageRecord | undefined>).result;
+        if (!record) return;
+        found = true;
+        store.put({ ...record, ...changes, updatedAt: Date.now(), syncState: this.editState });
+        this.touch(sets);
+      };
+    });
+
+    if (!found) {
+      throw new Error('Image not found');
+    }
+  }
+
+  // Read the set, upgrading it if it was written by an older schema. A set
+  // that can't be upgraded is quarantined and treated as absent.
+  private async load(): Promise<StoredImages | null> {
+    const set = await this.getSet();
+    if (!set) return this.importLegacy();
+
+    const records = await this.readRecords();
+    const stored: StoredImages = {
+      schemaVersion: set.schemaVersion,
+      sourceId: set.sourceId,
+      savedAt: set.savedAt,
+      images: records.map(toImage),
+    };
+    if (set.schemaVersion === SCHEMA_VERSION) return stored;
+
+    try {
+      const upgraded = migrateStoredImages(stored, { sourceId: this.id, legacySavedAt: set.savedAt });
+      // Keep the conflict baselines; the migrated images may hold local edits
+      const bases = new Map(records.filter(record => record.base).map(record => [record.id, record.base]));
+      await this.replaceAll(upgraded.images, upgraded.savedAt, bases, set.fetchedAt);
+      return upgraded;
+    } catch (error) {
+      await this.quarantineSet(error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  // Move a copy saved by the localStorage version into IndexedDB
+  private async importLegacy(): Promise<StoredImages | null> {
+    if (!this.legacyKey) return null;
+    const raw = localStorage.getItem(this.legacyKey);
+    if (raw === null) return null;
+
+    const legacySavedAtKey = `${this.legacyKey}:savedAt`;
+    let stored: StoredImages;
+    try {
+      stored = migrateStoredImages(JSON.parse(raw), {
+        sourceId: this.id,
+        legacySavedAt: Number(localStorage.getItem(legacySavedAtKey)) || 0,
+      });
+      if (stored.sourceId !== this.id) {
+        throw new Error(`Stored data belongs to source "${stored.sourceId}"`);
+      }
+    } catch (error) {
+      try {
+        quarantine(this.legacyKey, raw, error instanceof Error ? error.message : String(error));
+      } catch (quarantineError) {
+        console.error('Could not quarantine unreadable data:', quarantineError);
+      }
+      localStorage.removeItem(legacySavedAtKey);
+      return null;
+    }
+
+    await this.replaceAll(stored.images, stored.savedAt);
+    localStorage.removeItem(this.legacyKey);
+    localStorage.removeItem(legacySavedAtKey);
+    return stored;
+  }
+
+  // Re-key an unreadable set under a quarantine source ID, so it stays in
+  // the database for recovery without being served
+  private async quarantineSet(reason: string): Promise<void> {
+    const quarantineId = quarantineKey(this.id);
+    console.error(`Stored images of "${this.id}" could not be read (${reason}); moved to "${quarantineId}"`);
+
+    const records = await this.readRecords();
+    await this.write((store, sets) => {
+      for (const record of records) {
+        store.delete([this.id, record.id]);
+        store.put({ ...record, sourceId: quarantineId });
+      }
+      sets.get(this.id).onsuccess = (event) => {
+        const set = (event.target as IDBRequest<ImageSetRecord | undefined>).result;
+        sets.delete(this.id);
+        if (set) sets.put({ ...set, sourceId: quarantineId });
+      };
+    });
+  }
+
+  // Every [sourceId, imageId] key of this source
+  private recordRange(): IDBKeyRange {
+    return IDBKeyRange.bound([this.id], [this.id, []]);
+  }
+
+  private async getSet(): Promise<ImageSetRecord | undefined> {
+    const db = await getDatabase();
+    return requestToPromise<ImageSetRecord | undefined>(
+      db.transaction(IMAGE_SETS_STORE, 'readonly').objectStore(IMAGE_SETS_STORE).get(this.id)
+    );
+  }
+
+  private async readRecords(): Promise<ImageRecord[]> {
+    const db = await getDatabase();
+    const index = db.transaction(IMAGES_STORE, 'readonly').objectStore(IMAGES_STORE).index('sourceId');
+    const records = await requestToPromise<ImageRecord[]>(index.getAll(IDBKeyRange.only(this.id)));
+    return records.sort((a, b) => a.position - b.position);
+  }
+
+  private async query(indexName: string, range: IDBKeyRange, bySourceOrder = true): Promise<ImageData[]> {
+    const db = await getDatabase();
+    const index = db.transaction(IMAGES_STORE, 'readonly').objectStore(IMAGES_STORE).index(indexName);
+    const records = await requestToPromise<ImageRecord[]>(index.getAll(range));
+    if (bySourceOrder) records.sort((a, b) => a.position - b.position);
+    return records.map(toImage);
+  }
+
+  // Run a read-write transaction over both stores; a full quota surfaces as
+  // StorageQuotaError
+  private async write(work: (store: IDBObjectStore, sets: IDBObjectStore) => void): Promise<void> {
+    try {
+      const db = await getDatabase();
+      const transaction = db.transaction([IMAGES_STORE, IMAGE_SETS_STORE], 'readwrite');
+      work(transaction.objectStore(IMAGES_STORE), transaction.objectStore(IMAGE_SETS_STORE));
+      await transactionDone(transaction);
+    } catch (error) {
+      throw toStorageError(error);
+    }
+  }
+
+  // Bump the set's save time within a write
+  private touch(sets: IDBObjectStore) {
+    sets.get(this.id).onsuccess = (event) => {
+      const set = (event.target as IDBRequest<ImageSetRecord | undefined>).result;
+      if (set) sets.put({ ...set, savedAt: Date.now() });
+    };
+  }
+}
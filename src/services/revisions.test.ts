@@ -0,0 +1,36 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { NewRevision, appendRevisions, clearRevisions, listRevisions } from './revisions';
+
+const edit = (sourceId: string, imageId: string, oldValue: string, newValue: string): NewRevision => ({
+  sourceId,
+  imageId,
+  field: 'label',
+  oldValue,
+  newValue,
+  editor: 'Sam',
+  origin: 'local',
+});
+
+describe('revision log', () => {
+  it('lists the revisions of an image newest first, in the order they were appended', async () => {
+    await appendRevisions([edit('log', 'a', 'cat', 'kitten'), edit('log', 'b', 'dog', 'puppy')]);
+    await appendRevisions([edit('log', 'a', 'kitten', 'tiger')]);
+    await appendRevisions([edit('log', 'a', 'tiger', 'cat')]);
+
+    const revisions = await listRevisions('log', 'a');
+    expect(revisions.map(r => `${r.oldValue}->${r.newValue}`)).toEqual(['tiger->cat', 'kitten->tiger', 'cat->kitten']);
+    expect(revisions[0].seq).toBeGreaterThan(revisions[1].seq);
+    expect(revisions[0]).toMatchObject({ editor: 'Sam', origin: 'local', timestamp: expect.any(Number) });
+    expect(await listRevisions('log', 'b')).toHaveLength(1);
+  });
+
+  it('clears the log of one source only', async () => {
+    await appendRevisions([edit('kept', 'a', 'cat', 'kitten'), edit('cleared', 'a', 'cat', 'tiger')]);
+
+    await clearRevisions('cleared');
+
+    expect(await listRevisions('cleared', 'a')).toEqual([]);
+    expect((await listRevisions('kept', 'a')).map(r => r.newValue)).toEqual(['kitten']);
+  });
+});
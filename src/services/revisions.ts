@@ -0,0 +1,78 @@
+import { requestToPromise, transactionDone } from '@/lib/idb';
+import { toStorageError } from '@/lib/storage';
+import { REVISIONS_STORE, getDatabase } from './database';
+import { MutationField } from './syncQueue';
+
+// Append-only log of field changes per image. Entries are never edited or
+// removed one by one; reverting a change appends a new entry.
+
+// 'local' changes were made in this browser, 'remote' ones arrived from the
+// data source on refresh
+export type RevisionOrigin = 'local' | 'remote';
+
+export interface Revision {
+  seq: number;
+  sourceId: string;
+  imageId: string;
+  field: MutationField;
+  oldValue: string;
+  newValue: string;
+  // Who made the change: the annotator, or for remote changes the row's
+  // "Edited by" cell, empty when the sheet doesn't record one
+  editor: string;
+  origin: RevisionOrigin;
+  // Name of the data source a remote change arrived from
+  sourceName?: string;
+  timestamp: number;
+}
+
+export type NewRevision = Omit<Revision, 'seq' | 'timestamp'>;
+
+let listeners: Array<(sourceId: string, imageIds: string[]) => void> = [];
+
+export async function appendRevisions(revisions: NewRevision[]): Promise<void> {
+  if (revisions.length === 0) return;
+
+  try {
+    const db = await getDatabase();
+    const transaction = db.transaction(REVISIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(REVISIONS_STORE);
+    const timestamp = Date.now();
+    for (const revision of revisions) {
+      store.add({ ...revision, timestamp });
+    }
+    await transactionDone(transaction);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+
+  const imageIds = [...new Set(revisions.map(revision => revision.imageId))];
+  listeners.forEach(listener => listener(revisions[0].sourceId, imageIds));
+}
+
+// Revisions of one image, newest first
+export async function listRevisions(sourceId: string, imageId: string): Promise<Revision[]> {
+  const db = await getDatabase();
+  const transaction = db.transaction(REVISIONS_STORE, 'readonly');
+  const index = transaction.objectStore(REVISIONS_STORE).index('image');
+  const revisions: Revision[] = await requestToPromise(index.getAll([sourceId, imageId]));
+  return revisions.sort((a, b) => b.seq - a.seq);
+}
+
+// Drop the whole log of a data source, when its connection is deleted
+export async function clearRevisions(sourceId: string): Promise<void> {
+  const db = await getDatabase();
+  const transaction = db.transaction(REVISIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(REVISIONS_STORE);
+  const keys = await requestToPromise(store.index('sourceId').getAllKeys(sourceId));
+  keys.forEach(key => store.delete(key));
+  await transactionDone(transaction);
+}
+
+// Notified after revisions are appended in this tab
+export function subscribeToRevisions(listener: (sourceId: string, imageIds: string[]) => void): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(l => l !== listener);
+  };
+}
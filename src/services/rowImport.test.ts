@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { urlIdMatches } from '@/lib/ids';
+import { importRows, reportToRows } from './rowImport';
+
+const HEADER = ['id', 'url', 'label'];
+
+describe('importRows', () => {
+  it('imports rows that repeat an ID under a URL-derived ID', () => {
+    const { images, rowNumbers, report } = importRows([
+      HEADER,
+      ['a', 'https://example.com/a.jpg', 'cat'],
+      ['a', 'https://example.com/b.jpg', 'dog'],
+    ]);
+
+    expect(images.map(image => image.label)).toEqual(['cat', 'dog']);
+    expect(images[0].id).toBe('a');
+    expect(urlIdMatches(images[1].id, 'https://example.com/b.jpg')).toBe(true);
+    expect(rowNumbers).toEqual([2, 3]);
+    expect(report.skippedRows).toBe(0);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ row: 3, kind: 'duplicate-id', severity: 'warning', imageId: images[1].id }),
+    ]);
+  });
+
+  it('keeps IDs unique when a duplicate row repeats the URL too', () => {
+    const { images, report } = importRows([
+      HEADER,
+      ['', 'https://example.com/a.jpg', 'cat'],
+      ['a', 'https://example.com/a.jpg', 'cat'],
+      ['a', 'https://example.com/a.jpg', 'cat'],
+    ]);
+
+    expect(new Set(images.map(image => image.id)).size).toBe(3);
+    expect(report.issues.map(issue => issue.kind)).toEqual(['missing-id', 'duplicate-url', 'duplicate-id', 'duplicate-url']);
+  });
+});
+
+describe('import report', () => {
+  it('counts imported and skipped rows, ignoring blank ones', () => {
+    const { images, rowNumbers, report } = importRows([
+      HEADER,
+      ['a', 'https://example.com/a.jpg', 'cat'],
+      ['', '', ''],
+      ['b', '', 'dog'],
+      ['c', 'not a url', 'bird'],
+      ['d', 'ftp://example.com/d.jpg', 'fish'],
+      ['e', 'https://example.com/e.jpg', 'ant'],
+    ]);
+
+    expect(images.map(image => image.id)).toEqual(['a', 'e']);
+    expect(rowNumbers).toEqual([2, 7]);
+    expect(report).toMatchObject({ totalRows: 5, importedRows: 2, skippedRows: 3 });
+    expect(report.issues.map(issue => [issue.row, issue.kind, issue.severity])).toEqual([
+      [4, 'missing-url', 'error'],
+      [5, 'invalid-url', 'error'],
+      [6, 'invalid-url', 'error'],
+    ]);
+    expect(report.issues[1].message).toBe('Skipped: "not a url" is not an http(s) URL');
+  });
+
+  it('imports rows with warnings and lists them against the image', () => {
+    const { images, report } = importRows([
+      HEADER,
+      ['a', 'https://example.com/a.pdf', ''],
+    ]);
+
+    expect(images).toEqual([{ id: 'a', url: 'https://example.com/a.pdf', label: 'Untitled' }]);
+    expect(report.skippedRows).toBe(0);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ row: 2, kind: 'empty-label', severity: 'warning', imageId: 'a' }),
+      expect.objectContaining({ row: 2, kind: 'non-image-url', severity: 'warning', imageId: 'a' }),
+    ]);
+  });
+
+  it('reports an empty sheet as nothing imported', () => {
+    expect(importRows([]).report).toMatchObject({ totalRows: 0, importedRows: 0, skippedRows: 0, issues: [] });
+    expect(importRows([HEADER]).report).toMatchObject({ totalRows: 0, importedRows: 0, skippedRows: 0 });
+  });
+
+  it('turns the issues into rows for download', () => {
+    const { report } = importRows([HEADER, ['a', '', 'cat']]);
+    expect(reportToRows(report)).toEqual([
+      ['Row', 'Severity', 'Issue', 'Image ID', 'Message'],
+      ['2', 'error', 'missing-url', '', 'Skipped: no image URL'],
+    ]);
+  });
+});
+
+describe('importRows regions', () => {
+  it('reads boxes from a regions column', () => {
+    const { images, report } = importRows([
+      ['id', 'url', 'label', 'Bounding boxes'],
+      ['a', 'https://example.com/a.jpg', 'cat', '[{"label":" cat ","x":1,"y":2,"width":30,"height":40}]'],
+      ['b', 'https://example.com/b.jpg', 'dog', ''],
+    ]);
+
+    expect(images[0].regions).toEqual([{ label: 'cat', x: 1, y: 2, width: 30, height: 40 }]);
+    expect(images[1]).not.toHaveProperty('regions');
+    expect(report.issues).toEqual([]);
+  });
+
+  it('imports a row with unreadable regions without them and warns', () => {
+    const { images, report } = importRows([
+      ['id', 'url', 'label', 'regions'],
+      ['a', 'https://example.com/a.jpg', 'cat', '[{"label":"cat","x":"1"}]'],
+      ['b', 'https://example.com/b.jpg', 'dog', 'not json'],
+    ]);
+
+    expect(images.map(image => image.regions)).toEqual([undefined, undefined]);
+    expect(report.issues.map(issue => [issue.row, issue.kind, issue.severity])).toEqual([
+      [2, 'invalid-regions', 'warning'],
+      [3, 'invalid-regions', 'warning'],
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+import { ImageData, RegionAnnotation } from '@/components/ImageGallery';
+import { isBlankRow } from '@/lib/csv';
+import { createUrlIdAllocator } from '@/lib/ids';
+import { normalizeImageUrl } from '@/lib/duplicates';
+import { ColumnMapping, regionsColumnIndex, resolveColumnIndexes } from './columnMapping';
+
+// Turns tabular rows (header row first) into images and records, row by row,
+// everything that was skipped or looks suspicious along the way.
+
+export type ImportIssueKind =
+  | 'missing-url'
+  | 'invalid-url'
+  | 'missing-id'
+  | 'duplicate-id'
+  | 'duplicate-url'
+  | 'empty-label'
+  | 'non-image-url'
+  | 'mixed-content'
+  | 'invalid-regions';
+
+export interface ImportIssue {
+  // 1-based sheet row, header included
+  row: number;
+  kind: ImportIssueKind;
+  // 'error' rows were skipped; 'warning' rows were imported anyway
+  severity: 'error' | 'warning';
+  message: string;
+  imageId?: string;
+}
+
+export interface ImportReport {
+  createdAt: number;
+  totalRows: number;
+  importedRows: number;
+  skippedRows: number;
+  issues: ImportIssue[];
+}
+
+export interface ImportResult {
+  images: ImageData[];
+  // 1-based sheet row of each image, header included
+  rowNumbers: number[];
+  report: ImportReport;
+}
+
+const IMAGE_EXTENSIONS = new Set([
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'svg', 'bmp', 'ico', 'tif', 'tiff', 'heic', 'heif',
+]);
+
+// Only flags URLs whose path ends in a known non-image extension; image CDNs
+// often serve extensionless paths, which get the benefit of the doubt
+function hasNonImageExtension(url: URL): boolean {
+  const match = url.pathname.match(/\.([a-z0-9]+)$/i);
+  return !!match && !IMAGE_EXTENSIONS.has(match[1].toLowerCase());
+}
+
+// A regions cell: a JSON list of {label, x, y, width, height} boxes in pixels.
+// Null when the cell isn't one.
+function parseRegions(text: string): RegionAnnotation[] | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return null;
+  }
+  if (!Array.isArray(value)) return null;
+
+  const regions: RegionAnnotation[] = [];
+  for (const item of value) {
+    const { label, x, y, width, height } = (item ?? {}) as Record<string, unknown>;
+    const numbers = [x, y, width, height];
+    if (typeof label !== 'string' || !numbers.every(n => typeof n === 'number' && Number.isFinite(n))) {
+      return null;
+    }
+    regions.push({ label: label.trim(), x: x as number, y: y as number, width: width as number, height: height as number });
+  }
+  return regions;
+}
+
+export function importRows(rows: string[][], columnMapping?: ColumnMapping): ImportResult {
+  const images: ImageData[] = [];
+  const rowNumbers: number[] = [];
+  const issues: ImportIssue[] = [];
+  const seenIds = new Map<string, number>();
+  const seenUrls = new Map<string, number>();
+  const allocateUrlId = createUrlIdAllocator();
+  let totalRows = 0;
+
+  const report = (): ImportReport => ({
+    createdAt: Date.now(),
+    totalRows,
+    importedRows: images.length,
+    skippedRows: totalRows - images.length,
+    issues,
+  });
+
+  if (rows.length === 0) return { images, rowNumbers, report: report() };
+
+  const columns = resolveColumnIndexes(rows[0], columnMapping);
+  const regionsColumn = regionsColumnIndex(rows[0]);
+  const cell = (row: string[], index: number) => (index === -1 ? '' : (row[index] || '').trim());
+  const pageIsSecure = typeof window !== 'undefined' && window.location.protocol === 'https:';
+
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (isBlankRow(row)) continue;
+
+    totalRows++;
+    const sheetRow = i + 1;
+    const id = cell(row, columns.id);
+    const url = cell(row, columns.url);
+    const label = cell(row, columns.label);
+    const comments = cell(row, columns.comments);
+    const editedBy = cell(row, columns.editedBy);
+    const editedAt = cell(row, columns.editedAt);
+    const regionsText = cell(row, regionsColumn);
+
+    if (!url) {
+      issues.push({ row: sheetRow, kind: 'missing-url', severity: 'error', message: 'Skipped: no image URL' });
+      continue;
+    }
+
+    let parsedUrl: URL | null = null;
+    try {
+      parsedUrl = new URL(url);
+    } catch (error) {
+      // Reported below
+    }
+    if (!parsedUrl || (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:')) {
+      issues.push({ row: sheetRow, kind: 'invalid-url', severity: 'error', message: `Skipped: "${url}" is not an http(s) URL` });
+      continue;
+    }
+
+    // Two rows with one ID can't be told apart when saving edits, so later
+    // ones are imported under an ID derived from their URL, as if the ID
+    // cell were empty
+    const firstRow = id ? seenIds.get(id) : undefined;
+    let imageId = id && firstRow === undefined ? id : allocateUrlId(url);
+    while (seenIds.has(imageId)) imageId = allocateUrlId(url);
+    seenIds.set(imageId, sheetRow);
+    if (firstRow !== undefined) {
+      issues.push({
+        row: sheetRow,
+        kind: 'duplicate-id',
+        severity: 'warning',
+        message: `ID "${id}" is already used by row ${firstRow}; using "${imageId}", derived from the image URL`,
+        imageId,
+      });
+    } else if (!id) {
+      issues.push({
+        row: sheetRow,
+        kind: 'missing-id',
+        severity: 'warning',
+        message: `No ID; using "${imageId}", derived from the image URL`,
+        imageId,
+      });
+    }
+
+    const normalizedUrl = normalizeImageUrl(url);
+    const firstUrlRow = seenUrls.get(normalizedUrl);
+    if (firstUrlRow !== undefined) {
+      issues.push({
+        row: sheetRow,
+        kind: 'duplicate-url',
+        severity: 'warning',
+        message: `Same image as row ${firstUrlRow}`,
+        imageId,
+      });
+    } else {
+      seenUrls.set(normalizedUrl, sheetRow);
+    }
+
+    if (!label) {
+      issues.push({ row: sheetRow, kind: 'empty-label', severity: 'warning', message: 'Empty label; shown as "Untitled"', imageId });
+    }
+
+    if (hasNonImageExtension(parsedUrl)) {
+      issues.push({ row: sheetRow, kind: 'non-image-url', severity: 'warning', message: `"${url}" doesn't look like an image`, imageId });
+    }
+
+    if (pageIsSecure && parsedUrl.protocol === 'http:') {
+      issues.push({
+        row: sheetRow,
+        kind: 'mixed-content',
+        severity: 'warning',
+        message: 'Uses http: on an https: page; the browser may block or upgrade it',
+        imageId,
+      });
+    }
+
+    const regions = regionsText ? parseRegions(regionsText) : null;
+    if (regionsText && !regions) {
+      issues.push({
+        row: sheetRow,
+        kind: 'invalid-regions',
+        severity: 'warning',
+        message: 'Regions aren\'t a JSON list of {label, x, y, width, height} boxes; imported without them',
+        imageId,
+      });
+    }
+
+    images.push({
+      id: imageId,
+      url,
+      label: label || 'Untitled',
+      ...(comments && { comments }),
+      ...(editedBy && { editedBy }),
+      ...(editedAt && { editedAt }),
+      ...(regions?.length && { regions }),
+    });
+    rowNumbers.push(sheetRow);
+  }
+
+  return { images, rowNumbers, report: report() };
+}
+
+// Report rows for download
+export function reportToRows(report: ImportReport): string[][] {
+  return [
+    ['Row', 'Severity', 'Issue', 'Image ID', 'Message'],
+    ...report.issues.map(issue => [
+      String(issue.row),
+      issue.severity,
+      issue.kind,
+      issue.imageId ?? '',
+      issue.message,
+    ]),
+  ];
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockSheetsServer, startMockSheetsServer } from '@/test/mockSheetsServer';
+import { SheetsApiClient, SheetsApiError, columnLetter, quoteSheetTitle } from './sheetsApi';
+
+const SPREADSHEET_ID = 'sheet-123';
+
+describe('SheetsApiClient', () => {
+  let server: MockSheetsServer;
+
+  beforeEach(async () => {
+    server = await startMockSheetsServer({
+      spreadsheetId: SPREADSHEET_ID,
+      sheets: [
+        { sheetId: 0, title: 'Notes', rows: [['note']] },
+        {
+          sheetId: 42,
+          title: "Bob's images",
+          rows: [
+            ['id', 'url', 'label', 'comments'],
+            ['a', 'https://example.com/a.jpg', 'cat', ''],
+            ['b', 'https://example.com/b.jpg', 'dog', 'blurry'],
+          ],
+        },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const client = (getAccessToken = vi.fn(async () => server.token)) =>
+    new SheetsApiClient({ baseUrl: server.baseUrl, getAccessToken, retryDelay: 1 });
+
+  it('lists tabs and reads values', async () => {
+    const api = client();
+    const tab = quoteSheetTitle("Bob's images");
+
+    expect(await api.getSheets(SPREADSHEET_ID)).toEqual([
+      { sheetId: 0, title: 'Notes', index: 0 },
+      { sheetId: 42, title: "Bob's images", index: 1 },
+    ]);
+    expect(await api.getValues(SPREADSHEET_ID, `${tab}!1:1`)).toEqual([['id', 'url', 'label', 'comments']]);
+    expect(await api.getValues(SPREADSHEET_ID, `${tab}!A:A`)).toEqual([['id'], ['a'], ['b']]);
+  });
+
+  it('writes a single cell and batches of cells', async () => {
+    const api = client();
+    const tab = quoteSheetTitle("Bob's images");
+
+    await api.updateValues(SPREADSHEET_ID, `${tab}!${columnLetter(2)}2`, [['kitten']]);
+    await api.batchUpdateValues(SPREADSHEET_ID, [
+      { range: `${tab}!C3`, values: [['puppy']] },
+      { range: `${tab}!D3`, values: [['sharp']] },
+    ]);
+
+    expect(server.sheets[1].rows.slice(1)).toEqual([
+      ['a', 'https://example.com/a.jpg', 'kitten', ''],
+      ['b', 'https://example.com/b.jpg', 'puppy', 'sharp'],
+    ]);
+  });
+
+  it('appends rows and deletes them', async () => {
+    const api = client();
+
+    await api.appendValues(SPREADSHEET_ID, quoteSheetTitle("Bob's images"), [['c', 'https://example.com/c.jpg', 'bird']]);
+    await api.batchUpdate(SPREADSHEET_ID, [{
+      deleteDimension: { range: { sheetId: 42, dimension: 'ROWS', startIndex: 1, endIndex: 2 } },
+    }]);
+
+    expect(server.sheets[1].rows.map(row => row[0])).toEqual(['id', 'b', 'c']);
+  });
+
+  it('refreshes a rejected token once and retries', async () => {
+    const getAccessToken = vi.fn(async (options?: { refresh?: boolean }) => (options?.refresh ? server.token : 'expired'));
+
+    expect(await client(getAccessToken).getValues(SPREADSHEET_ID, 'Notes!A1')).toEqual([['note']]);
+    expect(getAccessToken).toHaveBeenCalledTimes(2);
+    expect(getAccessToken).toHaveBeenLastCalledWith({ refresh: true });
+    expect(server.requests.map(request => request.token)).toEqual(['expired', server.token]);
+  });
+
+  it('gives up when the refreshed token is rejected too', async () => {
+    const api = client(vi.fn(async () => 'revoked'));
+
+    const error = await api.getValues(SPREADSHEET_ID, 'Notes!A1').catch(e => e);
+    expect(error).toBeInstanceOf(SheetsApiError);
+    expect(error.status).toBe(401);
+    expect(error.message).toBe('Google Sheets: Request had invalid authentication credentials.');
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('retries rate-limited requests with backoff', async () => {
+    server.failNext({ status: 429 }, { status: 429, retryAfter: 0 });
+
+    await client().updateValues(SPREADSHEET_ID, 'Notes!A1', [['updated']]);
+
+    expect(server.requests).toHaveLength(3);
+    expect(server.sheets[0].rows[0]).toEqual(['updated']);
+  });
+
+  it('reports a 429 once the retries are used up', async () => {
+    server.failNext({ status: 429 }, { status: 429 }, { status: 429 }, { status: 429 });
+
+    const error = await client().updateValues(SPREADSHEET_ID, 'Notes!A1', [['updated']]).catch(e => e);
+    expect(error).toBeInstanceOf(SheetsApiError);
+    expect(error.status).toBe(429);
+    expect(server.requests).toHaveLength(4);
+    expect(server.sheets[0].rows[0]).toEqual(['note']);
+  });
+
+  it('does not retry other errors', async () => {
+    server.failNext({ status: 403 });
+
+    const error = await client().getValues(SPREADSHEET_ID, 'Notes!A1').catch(e => e);
+    expect(error.status).toBe(403);
+    expect(server.requests).toHaveLength(1);
+  });
+});
+
+describe('columnLetter', () => {
+  it('converts zero-based indexes to A1 letters', () => {
+    expect([0, 25, 26, 51, 701, 702].map(columnLetter)).toEqual(['A', 'Z', 'AA', 'AZ', 'ZZ', 'AAA']);
+  });
+});
@@ -0,0 +1,204 @@
+// Minimal Google Sheets API v4 client used for write-back.
+// The base URL is configurable so the client can run against a local mock
+// server that implements the same endpoints (see src/test/mockSheetsServer).
+// A rejected token is refreshed once, and rate-limited requests are retried
+// with exponential backoff before the error reaches the caller.
+
+const DEFAULT_BASE_URL = 'https://sheets.googleapis.com/v4';
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1000;
+// Longest wait a Retry-After header is honoured for
+const MAX_RETRY_AFTER = 60_000;
+
+export class SheetsApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SheetsApiError';
+    this.status = status;
+  }
+}
+
+export interface ValueRange {
+  range: string;
+  values: string[][];
+}
+
+interface SheetProperties {
+  sheetId: number;
+  title: string;
+  index: number;
+}
+
+// `refresh` asks for a new token because the last one was rejected
+export type AccessTokenProvider = (options?: { refresh?: boolean }) => Promise<string>;
+
+interface SheetsApiOptions {
+  baseUrl?: string;
+  getAccessToken: AccessTokenProvider;
+  // Retries of a rate-limited (429) request, and the first backoff delay in ms
+  maxRetries?: number;
+  retryDelay?: number;
+}
+
+export class SheetsApiClient {
+  private baseUrl: string;
+  private getAccessToken: AccessTokenProvider;
+  private maxRetries: number;
+  private retryDelay: number;
+
+  constructor({
+    baseUrl = import.meta.env.VITE_SHEETS_API_BASE_URL || DEFAULT_BASE_URL,
+    getAccessToken,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryDelay = DEFAULT_RETRY_DELAY,
+  }: SheetsApiOptions) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.getAccessToken = getAccessToken;
+    this.maxRetries = maxRetries;
+    this.retryDelay = retryDelay;
+  }
+
+  // List the tabs of a spreadsheet
+  async getSheets(spreadsheetId: string): Promise<SheetProperties[]> {
+    const result = await this.request<{ sheets?: { properties: SheetProperties }[] }>(
+      'GET',
+      `/spreadsheets/${encodeURIComponent(spreadsheetId)}?fields=sheets.properties`
+    );
+    return (result.sheets || []).map(sheet => sheet.properties);
+  }
+
+  // spreadsheets.values.get
+  async getValues(spreadsheetId: string, range: string): Promise<string[][]> {
+    const result = await this.request<{ values?: string[][] }>(
+      'GET',
+      `/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}`
+    );
+    return result.values || [];
+  }
+
+  // spreadsheets.values.update
+  async updateValues(spreadsheetId: string, range: string, values: string[][]): Promise<void> {
+    await this.request(
+      'PUT',
+      `/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}?valueInputOption=RAW`,
+      { range, values }
+    );
+  }
+
+  // spreadsheets.values.batchUpdate
+  async batchUpdateValues(spreadsheetId: string, data: ValueRange[]): Promise<void> {
+    await this.request(
+      'POST',
+      `/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchUpdate`,
+      { valueInputOption: 'RAW', data }
+    );
+  }
+
+  // spreadsheets.values.append
+  async appendValues(spreadsheetId: string, range: string, values: string[][]): Promise<void> {
+    await this.request(
+      'POST',
+      `/spreadsheets/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`,
+      { range, values }
+    );
+  }
+
+  // spreadsheets.batchUpdate, for structural changes such as deleting rows
+  async batchUpdate(spreadsheetId: string, requests: object[]): Promise<void> {
+    await this.request(
+      'POST',
+      `/spreadsheets/${encodeURIComponent(spreadsheetId)}:batchUpdate`,
+      { requests }
+    );
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: object): Promise<T> {
+    let refreshToken = false;
+    let tokenRefreshed = false;
+    let rateLimited = 0;
+
+    for (;;) {
+      const token = await this.getAccessToken(refreshToken ? { refresh: true } : undefined);
+      refreshToken = false;
+
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}${path}`, {
+          method,
+          headers: {
+            Authorization: `Bearer ${token}`,
+            ...(body && { 'Content-Type': 'application/json' }),
+          },
+          body: body && JSON.stringify(body),
+        });
+      } catch {
+        throw new SheetsApiError('Could not reach Google Sheets. Check your connection.', 0);
+      }
+
+      // The token expired or was revoked: get a new one and try once more
+      if (response.status === 401 && !tokenRefreshed) {
+        await response.body?.cancel();
+        refreshToken = tokenRefreshed = true;
+        continue;
+      }
+
+      if (response.status === 429 && rateLimited < this.maxRetries) {
+        await response.body?.cancel();
+        await sleep(this.backoff(response, rateLimited++));
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new SheetsApiError(await readErrorMessage(response), response.status);
+      }
+
+      return response.status === 204 ? ({} as T) : response.json();
+    }
+  }
+
+  // Wait before retry `attempt` (0-based): what Retry-After asks for when
+  // the server sends it, otherwise doubling from retryDelay
+  private backoff(response: Response, attempt: number): number {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    if (response.headers.has('Retry-After') && Number.isFinite(retryAfter)) {
+      return Math.min(retryAfter * 1000, MAX_RETRY_AFTER);
+    }
+    return this.retryDelay * 2 ** attempt;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Pull the human-readable message out of a Google API error body
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    if (body?.error?.message) {
+      return `Google Sheets: ${body.error.message}`;
+    }
+  } catch {
+    // Not JSON; fall through to the status line
+  }
+  return `Google Sheets request failed (HTTP ${response.status})`;
+}
+
+// Quote a tab title for use in A1 notation
+export function quoteSheetTitle(title: string): string {
+  return `'${title.replace(/'/g, "''")}'`;
+}
+
+// Zero-based column index to A1 column letters (0 -> A, 26 -> AA)
+export function columnLetter(index: number): string {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
@@ -0,0 +1,107 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ImageData } from '@/components/ImageGallery';
+import { transactionDone } from '@/lib/idb';
+import { createMemoryStorage } from '@/test/memoryStorage';
+import { IMAGES_STORE, IMAGE_SETS_STORE, getDatabase } from './database';
+import { LocalDataSource } from './localStore';
+import { getBaseValue } from './baseVersions';
+import {
+  SCHEMA_VERSION,
+  StorageMigrationError,
+  discardQuarantined,
+  listQuarantined,
+  migrateStoredImages,
+  readQuarantined,
+  schemaVersionOf,
+} from './storageSchema';
+
+const CAT: ImageData = { id: 'a', url: 'https://example.com/a.jpg', label: 'cat' };
+
+describe('storage schema', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+    // Quarantining logs what was set aside
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('recognises the schema version of a payload', () => {
+    expect(schemaVersionOf([CAT])).toBe(0);
+    expect(schemaVersionOf({ schemaVersion: 1 })).toBe(1);
+    expect(() => schemaVersionOf({ images: [] })).toThrow(StorageMigrationError);
+  });
+
+  it('migrates a version 0 image array to the current envelope', () => {
+    expect(migrateStoredImages([CAT], { sourceId: 'demo', legacySavedAt: 5 })).toEqual({
+      schemaVersion: SCHEMA_VERSION,
+      sourceId: 'demo',
+      savedAt: 5,
+      images: [CAT],
+    });
+  });
+
+  it('imports a version 0 copy from localStorage with its rows as conflict bases', async () => {
+    localStorage.setItem('v0-key', JSON.stringify([CAT]));
+    localStorage.setItem('v0-key:savedAt', '5');
+    const store = new LocalDataSource('v0', { seed: [], legacyKey: 'v0-key' });
+
+    expect(await store.initializeData()).toEqual([CAT]);
+    expect(await store.getFetchedAt()).toBe(5);
+    expect(localStorage.getItem('v0-key')).toBeNull();
+
+    // A local edit leaves the base at the imported value
+    await store.updateImageLabel('a', 'kitten');
+    expect(await getBaseValue('v0', 'a', 'label')).toBe('cat');
+  });
+
+  it('rejects a payload from a newer version', () => {
+    const newer = { schemaVersion: SCHEMA_VERSION + 1, sourceId: 'demo', savedAt: 5, images: [CAT] };
+    expect(() => migrateStoredImages(newer, { sourceId: 'demo', legacySavedAt: 0 })).toThrow(/newer than this app/);
+  });
+
+  it('quarantines a set stored by a newer version instead of overwriting it, until discarded', async () => {
+    const db = await getDatabase();
+    const transaction = db.transaction([IMAGES_STORE, IMAGE_SETS_STORE], 'readwrite');
+    transaction.objectStore(IMAGE_SETS_STORE).put({
+      sourceId: 'newer', schemaVersion: SCHEMA_VERSION + 1, savedAt: 5, fetchedAt: 5, nextPosition: 1,
+    });
+    transaction.objectStore(IMAGES_STORE).put({ ...CAT, sourceId: 'newer', position: 0, updatedAt: 5, syncState: 'local' });
+    await transactionDone(transaction);
+
+    expect(await new LocalDataSource('newer', { seed: [] }).initializeData()).toEqual([]);
+
+    const [entry, ...others] = await listQuarantined('newer');
+    expect(others).toEqual([]);
+    expect(entry.location).toBe('indexedDB');
+    expect(await readQuarantined(entry)).toEqual({
+      set: expect.objectContaining({ schemaVersion: SCHEMA_VERSION + 1 }),
+      images: [expect.objectContaining({ ...CAT, sourceId: entry.key })],
+    });
+
+    await discardQuarantined(entry);
+    expect(await listQuarantined('newer')).toEqual([]);
+    expect(await readQuarantined(entry)).toEqual({ set: undefined, images: [] });
+  });
+
+  it('quarantines an unreadable localStorage copy, until discarded', async () => {
+    localStorage.setItem('corrupt-key', '[{"id": "a", ');
+    const store = new LocalDataSource('corrupt', { seed: [], legacyKey: 'corrupt-key' });
+
+    expect(await store.initializeData()).toEqual([]);
+    expect(localStorage.getItem('corrupt-key')).toBeNull();
+
+    const [entry, ...others] = await listQuarantined('corrupt', 'corrupt-key');
+    expect(others).toEqual([]);
+    expect(entry.location).toBe('localStorage');
+    expect(await readQuarantined(entry)).toBe('[{"id": "a", ');
+
+    await discardQuarantined(entry);
+    expect(await listQuarantined('corrupt', 'corrupt-key')).toEqual([]);
+    expect(localStorage.length).toBe(0);
+  });
+});
@@ -0,0 +1,179 @@
+import { ImageData } from '@/components/ImageGallery';
+import { requestToPromise, transactionDone } from '@/lib/idb';
+import { IMAGES_STORE, IMAGE_SETS_STORE, getDatabase } from './database';
+
+// Versioned envelope for stored image sets. Sets written by older versions,
+// including the single localStorage string used before IndexedDB, are
+// upgraded one schema version at a time; anything that can't be read is set
+// aside in quarantine instead of being dropped, and can be listed, read back
+// and discarded here.
+
+export const SCHEMA_VERSION = 1;
+
+export interface StoredImages {
+  schemaVersion: number;
+  // Data source the images belong to
+  sourceId: string;
+  savedAt: number;
+  images: ImageData[];
+}
+
+// What a migration may need besides the payload itself
+export interface MigrationContext {
+  sourceId: string;
+  // Value of the separate "<key>:savedAt" entry written before version 1
+  legacySavedAt: number;
+}
+
+export class StorageMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageMigrationError';
+  }
+}
+
+type Migration = (payload: unknown, context: MigrationContext) => unknown;
+
+// MIGRATIONS[n] turns a version n payload into a version n + 1 payload.
+// Add a step here, and bump SCHEMA_VERSION, whenever the stored shape changes.
+const MIGRATIONS: Record<number, Migration> = {
+  // 0: a bare image array, with the save time under a separate key
+  0: (payload, context) => ({
+    schemaVersion: 1,
+    sourceId: context.sourceId,
+    savedAt: context.legacySavedAt,
+    images: payload,
+  }),
+};
+
+export function schemaVersionOf(payload: unknown): number {
+  if (Array.isArray(payload)) return 0;
+  if (payload && typeof payload === 'object' && typeof (payload as StoredImages).schemaVersion === 'number') {
+    return (payload as StoredImages).schemaVersion;
+  }
+  throw new StorageMigrationError('Stored data has no recognisable schema version');
+}
+
+function isImage(value: unknown): value is ImageData {
+  const image = value as ImageData;
+  return !!image && typeof image === 'object' && typeof image.id === 'string' && typeof image.url === 'string';
+}
+
+function assertCurrent(payload: unknown): StoredImages {
+  const stored = payload as StoredImages;
+  if (typeof stored.sourceId !== 'string' || typeof stored.savedAt !== 'number' || !Array.isArray(stored.images)) {
+    throw new StorageMigrationError('Stored data is missing required fields');
+  }
+  if (!stored.images.every(isImage)) {
+    throw new StorageMigrationError('Stored data contains malformed images');
+  }
+  return stored;
+}
+
+// Upgrade a parsed payload to SCHEMA_VERSION
+export function migrateStoredImages(payload: unknown, context: MigrationContext): StoredImages {
+  let version = schemaVersionOf(payload);
+  if (version > SCHEMA_VERSION) {
+    throw new StorageMigrationError(`Stored data uses schema version ${version}, newer than this app (${SCHEMA_VERSION})`);
+  }
+
+  let current = payload;
+  while (version < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new StorageMigrationError(`No migration from schema version ${version}`);
+    }
+    current = migrate(current, context);
+    version = schemaVersionOf(current);
+  }
+  return assertCurrent(current);
+}
+
+const QUARANTINE_INFIX = ':quarantine:';
+
+// Key or source ID quarantined data is moved to
+export function quarantineKey(key: string): string {
+  return `${key}${QUARANTINE_INFIX}${Date.now()}`;
+}
+
+// Move an unreadable localStorage entry aside, keeping it for manual
+// recovery. Returns the key it now lives under.
+export function quarantine(storageKey: string, raw: string, reason: string): string {
+  const key = quarantineKey(storageKey);
+  console.error(`Stored data under "${storageKey}" could not be read (${reason}); moved to "${key}"`);
+  // Remove first: the copy takes as much space as the original
+  localStorage.removeItem(storageKey);
+  try {
+    localStorage.setItem(key, raw);
+  } catch (error) {
+    localStorage.setItem(storageKey, raw);
+    throw error;
+  }
+  return key;
+}
+
+// Data set aside for a source: a localStorage entry, or an image set
+// re-keyed in IndexedDB by LocalDataSource
+export interface QuarantinedData {
+  key: string;
+  location: 'localStorage' | 'indexedDB';
+  quarantinedAt: number;
+}
+
+function quarantined(key: string, location: QuarantinedData['location']): QuarantinedData {
+  return { key, location, quarantinedAt: Number(key.slice(key.lastIndexOf(QUARANTINE_INFIX) + QUARANTINE_INFIX.length)) || 0 };
+}
+
+// Every [sourceId, imageId] key of a quarantined set
+function recordRange(key: string): IDBKeyRange {
+  return IDBKeyRange.bound([key], [key, []]);
+}
+
+// Data quarantined from source `sourceId` and its localStorage key, oldest
+// first
+export async function listQuarantined(sourceId: string, storageKey?: string): Promise<QuarantinedData[]> {
+  const entries: QuarantinedData[] = [];
+  if (storageKey) {
+    const prefix = storageKey + QUARANTINE_INFIX;
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) entries.push(quarantined(key, 'localStorage'));
+    }
+  }
+
+  const prefix = sourceId + QUARANTINE_INFIX;
+  const db = await getDatabase();
+  const sets = db.transaction(IMAGE_SETS_STORE, 'readonly').objectStore(IMAGE_SETS_STORE);
+  const keys = await requestToPromise(sets.getAllKeys(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+  keys.forEach(key => entries.push(quarantined(String(key), 'indexedDB')));
+
+  return entries.sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+}
+
+// The quarantined data as it was found, for download: the raw localStorage
+// string, or the set and image records from IndexedDB
+export async function readQuarantined({ key, location }: QuarantinedData): Promise<unknown> {
+  if (location === 'localStorage') return localStorage.getItem(key);
+
+  const db = await getDatabase();
+  const transaction = db.transaction([IMAGE_SETS_STORE, IMAGES_STORE], 'readonly');
+  const [set, images] = await Promise.all([
+    requestToPromise(transaction.objectStore(IMAGE_SETS_STORE).get(key)),
+    requestToPromise(transaction.objectStore(IMAGES_STORE).getAll(recordRange(key))),
+  ]);
+  return { set, images };
+}
+
+// Remove quarantined data once it has been recovered or given up on
+export async function discardQuarantined({ key, location }: QuarantinedData): Promise<void> {
+  if (location === 'localStorage') {
+    localStorage.removeItem(key);
+    return;
+  }
+
+  const db = await getDatabase();
+  const transaction = db.transaction([IMAGE_SETS_STORE, IMAGES_STORE], 'readwrite');
+  transaction.objectStore(IMAGE_SETS_STORE).delete(key);
+  transaction.objectStore(IMAGES_STORE).delete(recordRange(key));
+  await transactionDone(transaction);
+}
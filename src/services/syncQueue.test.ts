@@ -0,0 +1,220 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ImageData } from '@/components/ImageGallery';
+import { requestToPromise } from '@/lib/idb';
+import { DataSource } from './dataSource';
+import { DEFAULT_POLLING, saveConnection } from './connections';
+import { createDataSource } from './dataSources';
+import { LocalDataSource } from './localStore';
+import { MUTATIONS_STORE, getDatabase } from './database';
+import { getBaseValue } from './baseVersions';
+import { QueuedMutation, retryDelay, syncQueue } from './syncQueue';
+
+// The queue and the connection list read browser globals when loaded
+vi.hoisted(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, String(value)),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.stubGlobal('BroadcastChannel', undefined);
+});
+
+// Passed through, so a test can make the database unavailable
+vi.mock('./database', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./database')>();
+  return { ...actual, getDatabase: vi.fn(actual.getDatabase) };
+});
+
+// Conflicts are only listed and resolved for the active source, the demo
+// store until another connection is activated
+const SOURCE_ID = 'demo';
+
+// A remote holding `images` that applies writes to its own rows. Its rows
+// are also stored locally as fetched, which makes them the edits' bases.
+async function remoteSource(images: ImageData[]) {
+  await new LocalDataSource(SOURCE_ID, { seed: [] }).replaceAll(images);
+  const rows = new Map(images.map(image => [image.id, { ...image }]));
+  const write = (field: 'label' | 'comments') => vi.fn(async (imageId: string, value: string) => {
+    const row = rows.get(imageId);
+    if (!row) throw new Error('Image not found in the sheet');
+    row[field] = value;
+  });
+  const source = {
+    id: SOURCE_ID,
+    getImage: async (imageId: string) => (rows.has(imageId) ? { ...rows.get(imageId) } : null),
+    updateImageLabel: write('label'),
+    updateImageComments: write('comments'),
+  };
+  return { source: source as unknown as DataSource, rows, writes: source };
+}
+
+// Queued edits of a source as stored
+async function queued(sourceId = SOURCE_ID): Promise<QueuedMutation[]> {
+  const db = await getDatabase();
+  const index = db.transaction(MUTATIONS_STORE, 'readonly').objectStore(MUTATIONS_STORE).index('sourceId');
+  return requestToPromise(index.getAll(sourceId));
+}
+
+const cat = (): ImageData => ({ id: 'a', url: 'https://example.com/a.jpg', label: 'cat', comments: '' });
+
+describe('syncQueue durable queue', () => {
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await syncQueue.clearSource(SOURCE_ID);
+  });
+
+  it('collapses repeated edits of a field into one queued edit from the first base', async () => {
+    const { source, writes } = await remoteSource([cat()]);
+    writes.updateImageLabel.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    expect(await syncQueue.submit(source, 'a', 'label', 'kitten', 'cat')).toBe('queued');
+    expect(await syncQueue.submit(source, 'a', 'label', 'tiger', 'kitten')).toBe('queued');
+
+    const [mutation, ...others] = await queued();
+    expect(others).toEqual([]);
+    expect(mutation).toMatchObject({ imageId: 'a', field: 'label', value: 'tiger', baseValue: 'cat', revision: 2, attempts: 1 });
+    expect(mutation.lastError).toBe('Failed to fetch');
+  });
+
+  it('backs off exponentially with jitter, up to five minutes', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([1000, 2000, 4000, 8000]);
+    expect(retryDelay(30)).toBe(150_000);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(retryDelay(1)).toBeCloseTo(2000, 0);
+    expect(retryDelay(30)).toBeCloseTo(300_000, 0);
+  });
+
+  it('keeps retryable failures queued and drops and rethrows the others', async () => {
+    const { source, writes } = await remoteSource([cat()]);
+    writes.updateImageLabel.mockRejectedValue(new TypeError('Failed to fetch'));
+    writes.updateImageComments.mockRejectedValue(new Error('The sheet has no Comments column'));
+
+    expect(await syncQueue.submit(source, 'a', 'label', 'kitten', 'cat')).toBe('queued');
+    await expect(syncQueue.submit(source, 'a', 'comments', 'blurry', '')).rejects.toThrow('The sheet has no Comments column');
+
+    expect((await queued()).map(m => m.field)).toEqual(['label']);
+  });
+
+  it('sends edits straight to the source without IndexedDB', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { source, rows } = await remoteSource([cat()]);
+    vi.mocked(getDatabase).mockRejectedValueOnce(new Error('IndexedDB is unavailable'));
+
+    expect(await syncQueue.submit(source, 'a', 'label', 'kitten', 'cat')).toBe('synced');
+    expect(rows.get('a').label).toBe('kitten');
+  });
+});
+
+describe('syncQueue conflict detection', () => {
+  afterEach(async () => {
+    await syncQueue.clearSource(SOURCE_ID);
+  });
+
+  it('parks an edit as a conflict when the remote moved away from its base', async () => {
+    const { source, rows, writes } = await remoteSource([cat()]);
+    rows.get('a').label = 'dog';
+
+    expect(await syncQueue.submit(source, 'a', 'label', 'kitten', 'cat')).toBe('conflict');
+
+    expect(writes.updateImageLabel).not.toHaveBeenCalled();
+    expect(rows.get('a').label).toBe('dog');
+    expect(syncQueue.getConflicts()).toEqual([
+      expect.objectContaining({ imageId: 'a', field: 'label', value: 'kitten', baseValue: 'cat', conflict: expect.objectContaining({ theirs: 'dog' }) }),
+    ]);
+  });
+
+  it('sends an edit the remote already holds without a conflict', async () => {
+    const { source, rows } = await remoteSource([cat()]);
+    rows.get('a').label = 'kitten';
+
+    expect(await syncQueue.submit(source, 'a', 'label', 'kitten', 'cat')).toBe('synced');
+
+    expect(syncQueue.getConflicts()).toEqual([]);
+    expect(await queued()).toEqual([]);
+    expect(await getBaseValue(SOURCE_ID, 'a', 'label')).toBe('kitten');
+  });
+
+  it('flags fields changed on both sides on refresh and overlays the other unsent edits', async () => {
+    const dog: ImageData = { id: 'b', url: 'https://example.com/b.jpg', label: 'dog', comments: '' };
+    const { source, writes } = await remoteSource([cat(), dog]);
+    writes.updateImageLabel.mockRejectedValue(new TypeError('Failed to fetch'));
+    writes.updateImageComments.mockRejectedValue(new TypeError('Failed to fetch'));
+    expect(await syncQueue.submit(source, 'a', 'label', 'kitten', 'cat')).toBe('queued');
+    expect(await syncQueue.submit(source, 'b', 'comments', 'blurry', '')).toBe('queued');
+
+    // Someone relabelled "a" meanwhile; "b" didn't change remotely
+    const reconciled = await syncQueue.reconcile(SOURCE_ID, [{ ...cat(), label: 'tiger' }, dog]);
+
+    expect(reconciled[1]).toEqual({ ...dog, comments: 'blurry' });
+    expect(syncQueue.getConflicts()).toEqual([
+      expect.objectContaining({ imageId: 'a', field: 'label', conflict: expect.objectContaining({ theirs: 'tiger' }) }),
+    ]);
+    expect((await queued()).find(m => m.imageId === 'b').conflict).toBeUndefined();
+  });
+
+  it.each([
+    [{ kind: 'theirs' as const }, 'dog', false],
+    [{ kind: 'mine' as const }, 'kitten', true],
+    [{ kind: 'merged' as const, value: 'kitten or dog' }, 'kitten or dog', true],
+  ])('resolves a conflict with %o', async (resolution, expected, writesBack) => {
+    const { source, rows, writes } = await remoteSource([cat()]);
+    rows.get('a').label = 'dog';
+    await syncQueue.submit(source, 'a', 'label', 'kitten', 'cat');
+    const [conflict] = syncQueue.getConflicts();
+
+    const stamp = { by: 'Sam', at: '2026-01-02T03:04:05.000Z' };
+    expect(await syncQueue.resolveConflict(source, conflict.key, resolution, stamp)).toBe(expected);
+
+    expect(rows.get('a').label).toBe(expected);
+    if (writesBack) {
+      expect(writes.updateImageLabel).toHaveBeenCalledWith('a', expected, stamp);
+    } else {
+      expect(writes.updateImageLabel).not.toHaveBeenCalled();
+    }
+    expect(await getBaseValue(SOURCE_ID, 'a', 'label')).toBe(expected);
+    expect(await queued()).toEqual([]);
+    expect(syncQueue.getConflicts()).toEqual([]);
+  });
+});
+
+describe('syncQueue background retries', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('retries edits queued for a connection other than the active one', async () => {
+    const connection = saveConnection({
+      name: 'Labels file',
+      config: { kind: 'local-file', fileName: 'labels.csv', importedAt: 0 },
+      polling: DEFAULT_POLLING,
+    });
+    const store = createDataSource(connection) as LocalDataSource;
+    await store.replaceAll([{ id: 'a', url: 'https://example.com/a.jpg', label: 'cat' }]);
+
+    // Another tab showing that connection couldn't send its edit
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const unreachable = {
+      id: connection.id,
+      updateImageLabel: async () => {
+        throw new TypeError('Failed to fetch');
+      },
+    } as unknown as DataSource;
+    expect(await syncQueue.submit(unreachable, 'a', 'label', 'kitten', 'cat')).toBe('queued');
+
+    // This tab leads and shows the demo data when the retry comes due
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockImplementation(() => now + 10 * 60 * 1000);
+    vi.stubGlobal('window', { addEventListener: () => {} });
+    syncQueue.start();
+
+    await vi.waitFor(async () => {
+      const [image] = await createDataSource(connection).fetchImages().then(result => result.images);
+      expect(image.label).toBe('kitten');
+    });
+  });
+});
@@ -0,0 +1,509 @@
+import { ImageData } from '@/components/ImageGallery';
+import { requestToPromise, transactionDone } from '@/lib/idb';
+import { MUTATIONS_STORE, getDatabase } from './database';
+import { DataSource } from './dataSource';
+import { createDataSource, getActiveDataSource, subscribeToDataSource } from './dataSources';
+import { getConnection } from './connections';
+import { SheetsApiError } from './sheetsApi';
+import { GoogleSignInRequiredError } from './googleAuth';
+import { getBaseValue, recordBaseValue } from './baseVersions';
+import { broadcast, isLeader, subscribeToLeadership, subscribeToTabs } from './tabSync';
+import { EditStamp } from './annotator';
+
+// Durable outbound queue for label and comment edits.
+// Every edit is written to IndexedDB before it is sent, so it survives a
+// reload or a dead connection. Repeated edits to the same field of the same
+// image collapse into one entry; failed sends are retried with exponential
+// backoff until they succeed or fail permanently.
+//
+// Each entry remembers the remote value it was edited from (its base). If the
+// remote has moved away from that base by the time the edit is sent, or when
+// fresh data is fetched, the entry is parked as a conflict for the user to
+// resolve instead of silently overwriting the other edit.
+//
+// The queue is shared by all open tabs. Each tab sends its own edits right
+// away; retries in the background only run in the leader tab, for every
+// connection with queued edits, not just the one the leader shows.
+
+export type MutationField = 'label' | 'comments';
+
+export interface QueuedMutation {
+  // sourceId + imageId + field, so a newer edit replaces an older one
+  key: string;
+  sourceId: string;
+  imageId: string;
+  field: MutationField;
+  value: string;
+  // Remote value this edit was made from
+  baseValue: string;
+  // Who made the latest edit and when, written along with the value
+  stamp?: EditStamp;
+  // Set when the remote changed too; parked until resolved
+  conflict?: { theirs: string; detectedAt: number };
+  // Bumped on every coalesced edit so an in-flight send can't drop a newer value
+  revision: number;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+}
+
+// 'queued' means the edit is stored and will be retried in the background;
+// 'conflict' means it is parked until the user resolves it
+export type SubmitResult = 'synced' | 'queued' | 'conflict';
+
+// What to tell the user about an edit that didn't reach the source right
+// away; null when it did
+export function describeSubmitResult(result: SubmitResult): { title: string; description: string; variant?: 'destructive' } | null {
+  switch (result) {
+    case 'queued':
+      return {
+        title: "Saved offline, will sync",
+        description: "The change is kept in this browser and will be sent once the data source can be reached.",
+      };
+    case 'conflict':
+      return {
+        title: "Edit conflict",
+        description: "This field was also changed at the data source. Choose which value to keep.",
+        variant: 'destructive',
+      };
+    default:
+      return null;
+  }
+}
+
+export type ConflictResolution =
+  | { kind: 'mine' }
+  | { kind: 'theirs' }
+  | { kind: 'merged'; value: string };
+
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+// Exponential backoff with jitter: ~2s, 4s, 8s ... capped at 5 minutes
+export function retryDelay(attempts: number): number {
+  const ceiling = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+// Network trouble, server-side hiccups and a sign-in that has to wait for
+// the user are worth retrying; anything else
+// (missing row, missing column, no permission) will fail the same way again
+function isRetryable(error: unknown): boolean {
+  if (error instanceof SheetsApiError) {
+    return error.status === 0 || error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  if (error instanceof TypeError || error instanceof GoogleSignInRequiredError) return true;
+  return !navigator.onLine;
+}
+
+function mutationKey(sourceId: string, imageId: string, field: MutationField): string {
+  return `${sourceId}\u0000${imageId}\u0000${field}`;
+}
+
+class SyncQueue {
+  private pendingListeners: Array<(pending: number) => void> = [];
+  private conflictListeners: Array<(conflicts: QueuedMutation[]) => void> = [];
+  private dropListeners: Array<(mutation: QueuedMutation, error: Error) => void> = [];
+  private storageErrorListeners: Array<(error: Error) => void> = [];
+  private pending = 0;
+  private conflicts: QueuedMutation[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private processing = false;
+  private started = false;
+  // Fingerprint of the last listed queue, to tell other tabs about changes
+  private snapshot = '';
+
+  // Begin background retries; safe to call more than once
+  start() {
+    if (this.started) return;
+    this.started = true;
+
+    window.addEventListener('online', () => this.processDue(true));
+    subscribeToDataSource(() => this.processDue());
+    subscribeToLeadership((leader) => {
+      if (leader) this.processDue();
+    });
+    subscribeToTabs((message) => {
+      if (message.type === 'queue-changed') this.refreshPending();
+    });
+    this.processDue();
+  }
+
+  // Record an edit and try to send it right away. currentValue is what the
+  // user saw before editing, used as the base when none was recorded.
+  async submit(
+    source: DataSource,
+    imageId: string,
+    field: MutationField,
+    value: string,
+    currentValue: string,
+    stamp?: EditStamp
+  ): Promise<SubmitResult> {
+    let mutation: QueuedMutation;
+    try {
+      const baseValue = (await getBaseValue(source.id, imageId, field)) ?? currentValue;
+      mutation = await this.put(source.id, imageId, field, value, baseValue, stamp);
+    } catch (error) {
+      // No IndexedDB (e.g. private browsing): send without a safety net
+      console.error('Failed to queue edit:', error);
+      await applyMutation(source, { imageId, field, value, stamp });
+      return 'synced';
+    }
+
+    await this.refreshPending();
+    if (mutation.conflict) return 'conflict';
+    return this.attempt(source, mutation);
+  }
+
+  // Reconcile freshly fetched rows with queued edits: flag fields that
+  // changed on both sides and overlay edits that haven't reached the source
+  // yet. The fetch itself stored the rows as the new bases.
+  async reconcile(sourceId: string, images: ImageData[]): Promise<ImageData[]> {
+    let mutations: QueuedMutation[];
+    try {
+      mutations = await this.list(sourceId);
+    } catch (error) {
+      return images;
+    }
+
+    const byId = new Map(images.map(image => [image.id, image]));
+    for (const mutation of mutations) {
+      const remote = byId.get(mutation.imageId);
+      if (!remote || mutation.conflict) continue;
+
+      const theirs = remote[mutation.field] || '';
+      if (theirs !== mutation.baseValue && theirs !== mutation.value) {
+        await this.markConflict(mutation, theirs);
+      }
+    }
+    await this.refreshPending();
+
+    if (mutations.length === 0) return images;
+
+    return images.map((image) => {
+      const changes = mutations.filter(m => m.imageId === image.id);
+      return changes.reduce((img, m) => ({ ...img, [m.field]: m.value }), image);
+    });
+  }
+
+  // Settle a conflict. Returns the value the field ends up with. Keeping
+  // mine or merging is a new edit, credited to `stamp` when given.
+  async resolveConflict(source: DataSource, key: string, resolution: ConflictResolution, stamp?: EditStamp): Promise<string> {
+    const mutation = this.conflicts.find(m => m.key === key);
+    if (!mutation?.conflict) {
+      throw new Error('Conflict not found');
+    }
+    const { theirs } = mutation.conflict;
+
+    if (resolution.kind === 'theirs') {
+      await this.removeIfCurrent(mutation);
+      await this.recordBase(mutation, theirs);
+      await this.refreshPending();
+      return theirs;
+    }
+
+    // Keeping mine or a merge: the remote value becomes the new base
+    const value = resolution.kind === 'merged' ? resolution.value : mutation.value;
+    const rebased: QueuedMutation = {
+      ...mutation,
+      value,
+      baseValue: theirs,
+      stamp: stamp ?? mutation.stamp,
+      conflict: undefined,
+      revision: mutation.revision + 1,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    };
+    await this.updateIfCurrent(mutation, () => rebased);
+    await this.refreshPending();
+
+    const result = await this.attempt(source, rebased);
+    if (result === 'conflict') {
+      throw new Error('The sheet changed again while resolving. Please review the new value.');
+    }
+    return value;
+  }
+
+  // Drop every queued edit of a data source, when its connection is deleted
+  async clearSource(sourceId: string): Promise<void> {
+    const db = await getDatabase();
+    const transaction = db.transaction(MUTATIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(MUTATIONS_STORE);
+    const keys = await requestToPromise(store.index('sourceId').getAllKeys(sourceId));
+    keys.forEach(key => store.delete(key));
+    await transactionDone(transaction);
+    await this.refreshPending();
+  }
+
+  getConflicts(): QueuedMutation[] {
+    return this.conflicts;
+  }
+
+  subscribeToConflicts(listener: (conflicts: QueuedMutation[]) => void): () => void {
+    this.conflictListeners.push(listener);
+    return () => {
+      this.conflictListeners = this.conflictListeners.filter(l => l !== listener);
+    };
+  }
+
+  getPendingCount(): number {
+    return this.pending;
+  }
+
+  subscribe(listener: (pending: number) => void): () => void {
+    this.pendingListeners.push(listener);
+    return () => {
+      this.pendingListeners = this.pendingListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Notified when a background retry fails permanently and the edit is dropped
+  onDropped(listener: (mutation: QueuedMutation, error: Error) => void): () => void {
+    this.dropListeners.push(listener);
+    return () => {
+      this.dropListeners = this.dropListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Notified when a base can't be stored, which leaves later edits of that
+  // field without conflict detection
+  onStorageError(listener: (error: Error) => void): () => void {
+    this.storageErrorListeners.push(listener);
+    return () => {
+      this.storageErrorListeners = this.storageErrorListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Send every due mutation of every connection, oldest first
+  private async processDue(force = false) {
+    if (this.processing || !isLeader()) return;
+    this.processing = true;
+
+    try {
+      const mutations = (await this.listAll()).sort((a, b) => a.createdAt - b.createdAt);
+      const sources = new Map<string, DataSource | null>();
+      const now = Date.now();
+
+      for (const mutation of mutations) {
+        if (mutation.conflict) continue;
+        if (!force && mutation.nextAttemptAt > now) continue;
+        if (!sources.has(mutation.sourceId)) {
+          sources.set(mutation.sourceId, sourceFor(mutation.sourceId));
+        }
+        const source = sources.get(mutation.sourceId);
+        if (!source) {
+          // Left behind by a deleted connection; nothing to send it to
+          await this.removeIfCurrent(mutation);
+          continue;
+        }
+        try {
+          await this.attempt(source, mutation);
+        } catch (error) {
+          const reason = error instanceof Error ? error : new Error(String(error));
+          this.dropListeners.forEach(listener => listener(mutation, reason));
+        }
+      }
+    } catch (error) {
+      console.error('Failed to process sync queue:', error);
+    } finally {
+      this.processing = false;
+      await this.refreshPending();
+      await this.scheduleNext();
+    }
+  }
+
+  private async attempt(source: DataSource, mutation: QueuedMutation): Promise<SubmitResult> {
+    try {
+      // Check the remote still holds the base before overwriting it
+      if (source.getImage) {
+        const remote = await source.getImage(mutation.imageId);
+        const theirs = remote ? remote[mutation.field] || '' : undefined;
+        if (theirs !== undefined && theirs !== mutation.baseValue && theirs !== mutation.value) {
+          await this.markConflict(mutation, theirs);
+          await this.refreshPending();
+          return 'conflict';
+        }
+      }
+
+      await applyMutation(source, mutation);
+      await this.removeIfCurrent(mutation);
+      await this.recordBase(mutation, mutation.value);
+      await this.refreshPending();
+      return 'synced';
+    } catch (error) {
+      if (isRetryable(error)) {
+        await this.recordFailure(mutation, error);
+        await this.scheduleNext();
+        return 'queued';
+      }
+
+      await this.removeIfCurrent(mutation);
+      await this.refreshPending();
+      throw error;
+    }
+  }
+
+  private async scheduleNext() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    let mutations: QueuedMutation[];
+    try {
+      mutations = await this.listAll();
+    } catch (error) {
+      return;
+    }
+    const retryable = mutations.filter(m => !m.conflict);
+    if (retryable.length === 0) return;
+
+    const nextAttemptAt = Math.min(...retryable.map(m => m.nextAttemptAt));
+    this.timer = setTimeout(() => this.processDue(), Math.max(0, nextAttemptAt - Date.now()));
+  }
+
+  private async refreshPending() {
+    let mutations: QueuedMutation[] = [];
+    try {
+      mutations = await this.list(getActiveDataSource().id);
+    } catch (error) {
+      // Nothing can be queued without IndexedDB
+    }
+    this.pending = mutations.length;
+    this.conflicts = mutations.filter(m => m.conflict);
+
+    const snapshot = mutations.map(m => `${m.key}:${m.revision}:${m.conflict ? 'c' : ''}`).sort().join('|');
+    if (snapshot !== this.snapshot) {
+      this.snapshot = snapshot;
+      broadcast({ type: 'queue-changed' });
+    }
+
+    this.pendingListeners.forEach(listener => listener(this.pending));
+    this.conflictListeners.forEach(listener => listener(this.conflicts));
+  }
+
+  // Store the remote value a field now has. The write already reached the
+  // source, so a failure here is reported rather than failing the edit.
+  private async recordBase(mutation: QueuedMutation, value: string) {
+    try {
+      await recordBaseValue(mutation.sourceId, mutation.imageId, mutation.field, value);
+    } catch (error) {
+      console.error('Failed to record base version:', error);
+      const reason = error instanceof Error ? error : new Error(String(error));
+      this.storageErrorListeners.forEach(listener => listener(reason));
+    }
+  }
+
+  private async markConflict(mutation: QueuedMutation, theirs: string) {
+    await this.updateIfCurrent(mutation, (stored) => ({
+      ...stored,
+      conflict: { theirs, detectedAt: Date.now() },
+    }));
+  }
+
+  private async put(
+    sourceId: string,
+    imageId: string,
+    field: MutationField,
+    value: string,
+    baseValue: string,
+    stamp?: EditStamp
+  ): Promise<QueuedMutation> {
+    const db = await getDatabase();
+    const transaction = db.transaction(MUTATIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(MUTATIONS_STORE);
+    const key = mutationKey(sourceId, imageId, field);
+    const existing: QueuedMutation | undefined = await requestToPromise(store.get(key));
+    const now = Date.now();
+
+    // A coalesced edit keeps the base of the first edit in the chain, and a
+    // new edit on top of a conflict keeps the conflict for the user to settle
+    const mutation: QueuedMutation = {
+      key,
+      sourceId,
+      imageId,
+      field,
+      value,
+      baseValue: existing?.baseValue ?? baseValue,
+      stamp,
+      conflict: existing?.conflict,
+      revision: (existing?.revision ?? 0) + 1,
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: existing?.createdAt ?? now,
+    };
+    store.put(mutation);
+    await transactionDone(transaction);
+    return mutation;
+  }
+
+  private async removeIfCurrent(mutation: QueuedMutation) {
+    await this.updateIfCurrent(mutation, () => null);
+  }
+
+  private async recordFailure(mutation: QueuedMutation, error: unknown) {
+    await this.updateIfCurrent(mutation, (stored) => {
+      const attempts = stored.attempts + 1;
+      return {
+        ...stored,
+        attempts,
+        nextAttemptAt: Date.now() + retryDelay(attempts),
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+    });
+  }
+
+  // Replace (or delete, when update returns null) the stored mutation, but
+  // only if no newer edit has been coalesced into it meanwhile
+  private async updateIfCurrent(
+    mutation: QueuedMutation,
+    update: (stored: QueuedMutation) => QueuedMutation | null
+  ) {
+    const db = await getDatabase();
+    const transaction = db.transaction(MUTATIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(MUTATIONS_STORE);
+    const stored: QueuedMutation | undefined = await requestToPromise(store.get(mutation.key));
+
+    if (stored && stored.revision === mutation.revision) {
+      const next = update(stored);
+      if (next) {
+        store.put(next);
+      } else {
+        store.delete(mutation.key);
+      }
+    }
+    await transactionDone(transaction);
+  }
+
+  private async list(sourceId: string): Promise<QueuedMutation[]> {
+    const db = await getDatabase();
+    const transaction = db.transaction(MUTATIONS_STORE, 'readonly');
+    const index = transaction.objectStore(MUTATIONS_STORE).index('sourceId');
+    return requestToPromise(index.getAll(sourceId));
+  }
+
+  private async listAll(): Promise<QueuedMutation[]> {
+    const db = await getDatabase();
+    const transaction = db.transaction(MUTATIONS_STORE, 'readonly');
+    return requestToPromise(transaction.objectStore(MUTATIONS_STORE).getAll());
+  }
+}
+
+// The active source, or an adapter for another saved connection whose edits
+// are still queued. Null when the connection was deleted meanwhile.
+function sourceFor(sourceId: string): DataSource | null {
+  const active = getActiveDataSource();
+  if (active.id === sourceId) return active;
+  const connection = getConnection(sourceId);
+  return connection ? createDataSource(connection) : null;
+}
+
+function applyMutation(source: DataSource, mutation: Pick<QueuedMutation, 'imageId' | 'field' | 'value' | 'stamp'>): Promise<void> {
+  return mutation.field === 'label'
+    ? source.updateImageLabel(mutation.imageId, mutation.value, mutation.stamp)
+    : source.updateImageComments(mutation.imageId, mutation.value, mutation.stamp);
+}
+
+// Export singleton instance
+export const syncQueue = new SyncQueue();
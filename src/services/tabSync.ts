@@ -0,0 +1,97 @@
+import { ImageData } from '@/components/ImageGallery';
+import { ImageDiff } from '@/lib/imageDiff';
+
+// Keeps several open tabs of the gallery in step. Each tab broadcasts the
+// changes it makes over a BroadcastChannel and applies the ones it receives.
+// One tab, elected through the Web Locks API, runs background sync (polling
+// and queue retries) on behalf of all of them; when it closes, the lock
+// passes to another tab.
+
+export type TabMessage =
+  | { type: 'image-updated'; sourceId: string; imageId: string; changes: Partial<ImageData> }
+  | { type: 'image-added'; sourceId: string; image: ImageData }
+  | { type: 'images-removed'; sourceId: string; imageIds: string[] }
+  | { type: 'images-refreshed'; sourceId: string; diff: ImageDiff }
+  | { type: 'queue-changed' };
+
+const CHANNEL_NAME = 'label-pix-sync';
+const LEADER_LOCK = 'label-pix-sync:leader';
+
+let channel: BroadcastChannel | null = null;
+const messageListeners: Array<(message: TabMessage) => void> = [];
+
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      messageListeners.forEach(listener => listener(event.data));
+    };
+  }
+  return channel;
+}
+
+// Tell the other tabs; the sending tab doesn't receive its own message
+export function broadcast(message: TabMessage) {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    console.error('Failed to notify other tabs:', error);
+  }
+}
+
+export function subscribeToTabs(listener: (message: TabMessage) => void): () => void {
+  getChannel();
+  messageListeners.push(listener);
+  return () => {
+    const index = messageListeners.indexOf(listener);
+    if (index > -1) {
+      messageListeners.splice(index, 1);
+    }
+  };
+}
+
+let leader = false;
+let electionStarted = false;
+const leaderListeners: Array<(leader: boolean) => void> = [];
+
+function setLeader(value: boolean) {
+  leader = value;
+  leaderListeners.forEach(listener => listener(leader));
+}
+
+// Queue for the leader lock. It is held until the tab closes, so the
+// returned promise never settles. Without Web Locks every tab leads.
+function startElection() {
+  if (electionStarted) return;
+  electionStarted = true;
+
+  if (!navigator.locks) {
+    setLeader(true);
+    return;
+  }
+  navigator.locks
+    .request(LEADER_LOCK, () => {
+      setLeader(true);
+      return new Promise<never>(() => {});
+    })
+    .catch((error) => {
+      console.error('Leader election failed; running background sync in this tab:', error);
+      setLeader(true);
+    });
+}
+
+// Whether this tab runs background sync
+export function isLeader(): boolean {
+  return leader;
+}
+
+export function subscribeToLeadership(listener: (leader: boolean) => void): () => void {
+  startElection();
+  leaderListeners.push(listener);
+  return () => {
+    const index = leaderListeners.indexOf(listener);
+    if (index > -1) {
+      leaderListeners.splice(index, 1);
+    }
+  };
+}
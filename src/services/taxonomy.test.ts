@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from '@/test/memoryStorage';
+import { Taxonomy, checkLabel, cleanLabels } from './taxonomy';
+
+const vocabulary = (strict: boolean): Taxonomy => ({ labels: ['dog', 'bus', 'Golden retriever'], strict, source: { kind: 'manual' } });
+
+describe('checkLabel', () => {
+  it('saves a variant of a term as the term in strict mode', () => {
+    expect(checkLabel(vocabulary(true), ' Dogs ')).toEqual({ kind: 'ok', label: 'dog' });
+    expect(checkLabel(vocabulary(true), 'buses')).toEqual({ kind: 'ok', label: 'bus' });
+    expect(checkLabel(vocabulary(true), 'golden  Retrievers')).toEqual({ kind: 'ok', label: 'Golden retriever' });
+  });
+
+  it('rejects a label outside the vocabulary in strict mode', () => {
+    expect(checkLabel(vocabulary(true), ' cat ')).toEqual({
+      kind: 'rejected',
+      message: '"cat" isn\'t in the label vocabulary. Pick one of the suggested labels.',
+    });
+  });
+
+  it('lets an empty label through in strict mode', () => {
+    expect(checkLabel(vocabulary(true), '  ')).toEqual({ kind: 'ok', label: '' });
+  });
+
+  it('keeps the label as typed, trimmed, outside strict mode', () => {
+    expect(checkLabel(vocabulary(false), ' Dogs ')).toEqual({ kind: 'ok', label: 'Dogs' });
+    expect(checkLabel(vocabulary(false), 'cat')).toEqual({ kind: 'ok', label: 'cat' });
+  });
+});
+
+describe('cleanLabels', () => {
+  it('trims, collapses spaces and drops blanks and variants of earlier terms', () => {
+    expect(cleanLabels([' dog ', '', 'Dogs', 'golden   retriever', 'bus', 'Buses', '  '])).toEqual([
+      'dog',
+      'golden retriever',
+      'bus',
+    ]);
+  });
+});
+
+describe('taxonomy cache', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  // The module registers its storage listener when first loaded, so it is
+  // loaded afresh with a window to listen on
+  async function loadWithWindow() {
+    const window = new EventTarget();
+    vi.stubGlobal('window', window);
+    vi.stubGlobal('localStorage', createMemoryStorage());
+    vi.resetModules();
+    const taxonomy = await import('./taxonomy');
+    const storageEvent = (key: string | null) => window.dispatchEvent(Object.assign(new Event('storage'), { key }));
+    return { taxonomy, storageEvent };
+  }
+
+  it('reloads a vocabulary another tab saved', async () => {
+    const { taxonomy, storageEvent } = await loadWithWindow();
+    const listener = vi.fn();
+    taxonomy.subscribeToTaxonomy(listener);
+    expect(taxonomy.getTaxonomy('sheet-1').labels).toEqual([]);
+
+    // Written by another tab, which only shows up here as a storage event
+    localStorage.setItem('image_gallery_taxonomy:sheet-1', JSON.stringify({ labels: ['cat'], strict: true }));
+    expect(taxonomy.getTaxonomy('sheet-1').labels).toEqual([]);
+    storageEvent('image_gallery_taxonomy:sheet-1');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(taxonomy.getTaxonomy('sheet-1')).toMatchObject({ labels: ['cat'], strict: true });
+  });
+
+  it('ignores other keys and drops everything when storage is cleared', async () => {
+    const { taxonomy, storageEvent } = await loadWithWindow();
+    const listener = vi.fn();
+    taxonomy.saveTaxonomy('sheet-1', { labels: ['cat'], strict: false, source: { kind: 'manual' } });
+    taxonomy.subscribeToTaxonomy(listener);
+
+    storageEvent('image_gallery_annotator');
+    expect(listener).not.toHaveBeenCalled();
+
+    localStorage.clear();
+    storageEvent(null);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(taxonomy.getTaxonomy('sheet-1').labels).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+import { LabelCandidate, findVocabularyTerm, normalizeLabel } from '@/lib/labelMatch';
+import { parseSheetUrl, withGid } from '@/lib/sheetUrl';
+import { toStorageError } from '@/lib/storage';
+import { fetchSheetRows } from './googleSheets';
+
+// The managed label vocabulary of a connection, persisted in localStorage.
+// Terms are edited in the app or copied from another tab of the connected
+// sheet; in strict mode labels outside the vocabulary are rejected.
+
+export type TaxonomySource =
+  | { kind: 'manual' }
+  // A tab of the connected sheet, reloaded on request
+  | { kind: 'sheet-tab'; gid: string; title: string; loadedAt: number };
+
+export interface Taxonomy {
+  labels: string[];
+  strict: boolean;
+  source: TaxonomySource;
+}
+
+// What label inputs suggest from and check against
+export interface LabelVocabulary {
+  taxonomy: Taxonomy;
+  candidates: LabelCandidate[];
+}
+
+export type LabelCheck =
+  | { kind: 'ok'; label: string }
+  | { kind: 'rejected'; message: string };
+
+export const EMPTY_TAXONOMY: Taxonomy = { labels: [], strict: false, source: { kind: 'manual' } };
+
+// Header cells recognised at the top of a taxonomy tab
+const HEADER_NAMES = ['label', 'labels', 'name', 'class', 'classes', 'category', 'categories', 'taxonomy'];
+
+const TAXONOMY_KEY_PREFIX = 'image_gallery_taxonomy:';
+const taxonomyKey = (sourceId: string) => `${TAXONOMY_KEY_PREFIX}${sourceId}`;
+
+let listeners: Array<() => void> = [];
+const cache = new Map<string, Taxonomy>();
+
+function loadTaxonomy(sourceId: string): Taxonomy {
+  try {
+    const stored = localStorage.getItem(taxonomyKey(sourceId));
+    return stored ? { ...EMPTY_TAXONOMY, ...JSON.parse(stored) } : EMPTY_TAXONOMY;
+  } catch (error) {
+    console.error('Failed to parse the saved label vocabulary:', error);
+    return EMPTY_TAXONOMY;
+  }
+}
+
+export function getTaxonomy(sourceId: string): Taxonomy {
+  if (!cache.has(sourceId)) cache.set(sourceId, loadTaxonomy(sourceId));
+  return cache.get(sourceId);
+}
+
+export function saveTaxonomy(sourceId: string, taxonomy: Taxonomy) {
+  const saved = { ...taxonomy, labels: cleanLabels(taxonomy.labels) };
+  try {
+    localStorage.setItem(taxonomyKey(sourceId), JSON.stringify(saved));
+  } catch (error) {
+    throw toStorageError(error);
+  }
+  cache.set(sourceId, saved);
+  listeners.forEach(listener => listener());
+}
+
+export function clearTaxonomy(sourceId: string) {
+  localStorage.removeItem(taxonomyKey(sourceId));
+  cache.delete(sourceId);
+  listeners.forEach(listener => listener());
+}
+
+// Other tabs' edits replace the cached copy; a null key means the whole
+// storage was cleared
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === null) {
+      cache.clear();
+    } else if (event.key.startsWith(TAXONOMY_KEY_PREFIX)) {
+      cache.delete(event.key.slice(TAXONOMY_KEY_PREFIX.length));
+    } else {
+      return;
+    }
+    listeners.forEach(listener => listener());
+  });
+}
+
+export function subscribeToTaxonomy(listener: () => void): () => void {
+  listeners.push(listener);
+  return () => {
+    listeners = listeners.filter(l => l !== listener);
+  };
+}
+
+// Trimmed, without blanks and without variants of an earlier term
+export function cleanLabels(labels: string[]): string[] {
+  const kept: string[] = [];
+  for (const raw of labels) {
+    const label = raw.trim().replace(/\s+/g, ' ');
+    if (label && !findVocabularyTerm(label, kept)) kept.push(label);
+  }
+  return kept;
+}
+
+// Terms listed in the first column of another tab of the connected sheet;
+// a recognised header cell on top is skipped
+export async function fetchTaxonomyFromSheet(sheetUrl: string, gid: string): Promise<string[]> {
+  const rows = await fetchSheetRows(withGid(parseSheetUrl(sheetUrl), gid).csvUrl);
+  const column = rows.map(row => (row[0] || '').trim());
+  if (column.length > 0 && HEADER_NAMES.includes(normalizeLabel(column[0]))) {
+    column.shift();
+  }
+  const labels = cleanLabels(column);
+  if (labels.length === 0) {
+    throw new Error('That tab has no labels in its first column');
+  }
+  return labels;
+}
+
+// A label as it should be saved. Outside strict mode that's the label as
+// typed, since the fields only suggest matching terms; in strict mode
+// variants of a term ("Dogs ") become the term and anything else is rejected.
+export function checkLabel(taxonomy: Taxonomy, label: string): LabelCheck {
+  if (!taxonomy.strict || !label.trim()) return { kind: 'ok', label: label.trim() };
+  const term = findVocabularyTerm(label, taxonomy.labels);
+  if (term) return { kind: 'ok', label: term };
+  return {
+    kind: 'rejected',
+    message: `"${label.trim()}" isn't in the label vocabulary. Pick one of the suggested labels.`,
+  };
+}
@@ -0,0 +1,206 @@
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// In-memory stand-in for the Sheets API v4 endpoints SheetsApiClient uses:
+// spreadsheet properties, values get/update/batchUpdate/append and row
+// deletion through spreadsheets.batchUpdate. Point the client's baseUrl at
+// it. Failures can be queued to exercise the client's retry paths.
+
+export interface MockSheet {
+  sheetId: number;
+  title: string;
+  rows: string[][];
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  token: string;
+}
+
+interface MockFailure {
+  status: number;
+  retryAfter?: number;
+}
+
+export interface MockSheetsServer {
+  baseUrl: string;
+  sheets: MockSheet[];
+  // Every request received, in order
+  requests: MockRequest[];
+  // Bearer token the server accepts; anything else gets a 401
+  token: string;
+  // Answer the next requests with these errors instead, in order
+  failNext(...failures: MockFailure[]): void;
+  close(): Promise<void>;
+}
+
+interface MockOptions {
+  spreadsheetId: string;
+  sheets: MockSheet[];
+  token?: string;
+}
+
+// A1 range resolved against a tab; bounds are 0-based and inclusive,
+// undefined where the range is open
+interface CellRange {
+  sheet: MockSheet;
+  startRow?: number;
+  endRow?: number;
+  startColumn?: number;
+  endColumn?: number;
+}
+
+function columnIndex(letters: string): number {
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function parseRange(sheets: MockSheet[], range: string): CellRange {
+  const match = range.match(/^(?:'((?:[^']|'')+)'|([^!]+?))(?:!(.*))?$/);
+  if (!match) throw new Error(`Unable to parse range: ${range}`);
+  const title = match[1] !== undefined ? match[1].replace(/''/g, "'") : match[2];
+  const sheet = sheets.find(s => s.title === title);
+  if (!sheet) throw new Error(`Unable to parse range: ${range}`);
+  if (!match[3]) return { sheet };
+
+  const [start, end = start] = match[3].split(':');
+  const corner = (a1: string) => {
+    const [, letters, digits] = a1.match(/^([A-Z]*)(\d*)$/) ?? [];
+    if (letters === undefined) throw new Error(`Unable to parse range: ${range}`);
+    return {
+      column: letters ? columnIndex(letters) : undefined,
+      row: digits ? Number(digits) - 1 : undefined,
+    };
+  };
+  const from = corner(start);
+  const to = corner(end);
+  return { sheet, startRow: from.row, endRow: to.row, startColumn: from.column, endColumn: to.column };
+}
+
+function readRange({ sheet, startRow = 0, endRow, startColumn = 0, endColumn }: CellRange): string[][] {
+  const rows = sheet.rows.slice(startRow, endRow === undefined ? undefined : endRow + 1);
+  const values = rows.map(row => row.slice(startColumn, endColumn === undefined ? undefined : endColumn + 1));
+  // The API leaves out trailing empty rows
+  while (values.length > 0 && values[values.length - 1].every(cell => !cell)) values.pop();
+  return values;
+}
+
+function writeRange({ sheet, startRow = 0, startColumn = 0 }: CellRange, values: string[][]) {
+  values.forEach((cells, r) => {
+    const row = (sheet.rows[startRow + r] ??= []);
+    cells.forEach((value, c) => {
+      while (row.length < startColumn + c) row.push('');
+      row[startColumn + c] = value;
+    });
+  });
+  for (let i = 0; i < sheet.rows.length; i++) sheet.rows[i] ??= [];
+}
+
+interface ValueRangeBody {
+  range?: string;
+  values: string[][];
+}
+
+interface StructureRequest {
+  deleteDimension?: { range: { sheetId: number; dimension: string; startIndex: number; endIndex: number } };
+}
+
+async function readBody<T>(request: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+}
+
+function send(response: ServerResponse, status: number, body: object, headers: Record<string, string> = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+function sendError(response: ServerResponse, status: number, message: string, headers?: Record<string, string>) {
+  send(response, status, { error: { code: status, message } }, headers);
+}
+
+export async function startMockSheetsServer({ spreadsheetId, sheets, token = 'test-token' }: MockOptions): Promise<MockSheetsServer> {
+  const failures: MockFailure[] = [];
+  const requests: MockRequest[] = [];
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const path = decodeURIComponent(url.pathname);
+    const bearer = (request.headers.authorization ?? '').replace(/^Bearer /, '');
+    requests.push({ method: request.method ?? 'GET', path, token: bearer });
+
+    const failure = failures.shift();
+    if (failure) {
+      const headers: Record<string, string> = failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {};
+      sendError(response, failure.status, `Mock failure (HTTP ${failure.status})`, headers);
+      return;
+    }
+    if (bearer !== server.token) {
+      sendError(response, 401, 'Request had invalid authentication credentials.');
+      return;
+    }
+
+    const prefix = `/spreadsheets/${spreadsheetId}`;
+    if (!path.startsWith(prefix)) {
+      sendError(response, 404, 'Requested entity was not found.');
+      return;
+    }
+    const rest = path.slice(prefix.length);
+
+    try {
+      if (request.method === 'GET' && rest === '') {
+        send(response, 200, {
+          sheets: server.sheets.map((sheet, index) => ({ properties: { sheetId: sheet.sheetId, title: sheet.title, index } })),
+        });
+      } else if (request.method === 'GET' && rest.startsWith('/values/')) {
+        const range = rest.slice('/values/'.length);
+        send(response, 200, { range, values: readRange(parseRange(server.sheets, range)) });
+      } else if (request.method === 'PUT' && rest.startsWith('/values/')) {
+        const range = rest.slice('/values/'.length);
+        const { values } = await readBody<ValueRangeBody>(request);
+        writeRange(parseRange(server.sheets, range), values);
+        send(response, 200, { updatedRange: range });
+      } else if (request.method === 'POST' && rest === '/values:batchUpdate') {
+        const { data } = await readBody<{ data: ValueRangeBody[] }>(request);
+        for (const { range, values } of data) writeRange(parseRange(server.sheets, range), values);
+        send(response, 200, { totalUpdatedCells: data.length });
+      } else if (request.method === 'POST' && rest.startsWith('/values/') && rest.endsWith(':append')) {
+        const range = rest.slice('/values/'.length, -':append'.length);
+        const { values } = await readBody<ValueRangeBody>(request);
+        const { sheet } = parseRange(server.sheets, range);
+        sheet.rows.push(...values);
+        send(response, 200, { updates: { updatedRows: values.length } });
+      } else if (request.method === 'POST' && rest === ':batchUpdate') {
+        const { requests: changes } = await readBody<{ requests: StructureRequest[] }>(request);
+        for (const change of changes) {
+          const target = change.deleteDimension?.range;
+          const sheet = server.sheets.find(s => s.sheetId === target?.sheetId);
+          if (!sheet || target?.dimension !== 'ROWS') throw new Error('Unsupported request');
+          sheet.rows.splice(target.startIndex, target.endIndex - target.startIndex);
+        }
+        send(response, 200, { replies: changes.map(() => ({})) });
+      } else {
+        sendError(response, 404, 'Requested entity was not found.');
+      }
+    } catch (error) {
+      sendError(response, 400, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const http = createServer((request, response) => {
+    handle(request, response).catch(error => sendError(response, 500, String(error)));
+  });
+  await new Promise<void>(resolve => http.listen(0, '127.0.0.1', resolve));
+  const { port } = http.address() as AddressInfo;
+
+  const server: MockSheetsServer = {
+    baseUrl: `http://127.0.0.1:${port}`,
+    sheets,
+    requests,
+    token,
+    failNext: (...next) => failures.push(...next),
+    close: () => new Promise((resolve, reject) => http.close(error => (error ? reject(error) : resolve()))),
+  };
+  return server;
+}
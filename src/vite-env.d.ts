@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // OAuth client used to request Sheets write access
+  readonly VITE_GOOGLE_CLIENT_ID?: string;
+  // Fixed access token, e.g. for a local mock of the Sheets API
+  readonly VITE_GOOGLE_ACCESS_TOKEN?: string;
+  // Sheets API root; point at a mock server when testing write-back
+  readonly VITE_SHEETS_API_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}